@@ -0,0 +1,336 @@
+"use client";
+
+import { ArrowDown, ArrowUp, BarChart3 } from 'lucide-react';
+import { useMemo } from 'react';
+import { FileTreeNode, PackedFile, SkipReason, SkippedFile, buildFileTree, collectFiles } from '@/lib';
+
+export type StatsGrouping = 'file' | 'directory' | 'extension' | 'treemap';
+type SortKey = 'name' | 'size' | 'tokens';
+
+export interface StatsView {
+    grouping: StatsGrouping;
+    sortKey: SortKey;
+    descending: boolean;
+}
+
+export const DEFAULT_STATS_VIEW: StatsView = { grouping: 'file', sortKey: 'tokens', descending: true };
+
+interface FileStatsProps {
+    files: PackedFile[];
+    skipped: SkippedFile[];
+    // Paths included in the output (or left out by the token limit only)
+    selected: Set<string>;
+    view: StatsView;
+    onViewChange: (view: StatsView) => void;
+    onToggle: (paths: string[], include: boolean) => void;
+}
+
+interface StatsRow {
+    key: string;
+    label: string;
+    size: number;
+    tokens: number;
+    paths: string[];
+    // Why a single file is not in the output
+    reason?: SkipReason;
+}
+
+const GROUPINGS: { id: StatsGrouping; label: string; column: string }[] = [
+    { id: 'file', label: 'Files', column: 'File' },
+    { id: 'directory', label: 'Directories', column: 'Directory' },
+    { id: 'extension', label: 'Extensions', column: 'Extension' },
+    { id: 'treemap', label: 'Treemap', column: '' }
+];
+
+const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+    pattern: 'excluded by pattern',
+    ignored: 'ignored',
+    type: 'type not allowed',
+    size: 'too large',
+    budget: 'over the token limit',
+    manual: 'excluded',
+    error: 'read error'
+};
+
+// Colors of top-level directories in the treemap
+const TREEMAP_COLORS = ['#3b82f6', '#ec4899', '#10b981', '#f59e0b', '#8b5cf6', '#06b6d4', '#ef4444', '#84cc16'];
+const TREEMAP_WIDTH = 600;
+const TREEMAP_HEIGHT = 400;
+// Room for a directory's name above its contents
+const DIRECTORY_LABEL_HEIGHT = 14;
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const directoryOf = (path: string) => path.slice(0, Math.max(path.lastIndexOf('/'), 0)) || '.';
+
+const extensionOf = (path: string) => {
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(dot).toLowerCase() : name;
+};
+
+const groupRows = (rows: StatsRow[], keyOf: (path: string) => string): StatsRow[] => {
+    const groups = new Map<string, StatsRow>();
+    for (const row of rows) {
+        const key = keyOf(row.key);
+        const group = groups.get(key) ?? { key, label: key, size: 0, tokens: 0, paths: [] };
+        group.size += row.size;
+        group.tokens += row.tokens;
+        group.paths.push(...row.paths);
+        groups.set(key, group);
+    }
+    return Array.from(groups.values());
+};
+
+// Squarified treemap layout (Bruls et al.): rows are laid along the shorter side of the remaining
+// rectangle, and grow while that keeps their cells close to square
+const squarify = <T,>(items: { value: number; item: T }[], rect: Rect): { item: T; rect: Rect }[] => {
+    const total = items.reduce((sum, { value }) => sum + value, 0);
+    if (total <= 0 || rect.width <= 0 || rect.height <= 0) return [];
+
+    const scale = (rect.width * rect.height) / total;
+    const sorted = items.filter(({ value }) => value > 0).sort((a, b) => b.value - a.value);
+    const cells: { item: T; rect: Rect }[] = [];
+    let { x, y, width, height } = rect;
+
+    // Worst aspect ratio of a row of cells with the given total, largest and smallest areas
+    const worst = (side: number, area: number, largest: number, smallest: number) => (
+        Math.max((side * side * largest) / (area * area), (area * area) / (side * side * smallest))
+    );
+
+    for (let start = 0; start < sorted.length;) {
+        const side = Math.min(width, height);
+        const largest = sorted[start].value * scale;
+        let area = largest;
+        let end = start + 1;
+
+        while (end < sorted.length) {
+            const next = sorted[end].value * scale;
+            if (worst(side, area + next, largest, next) > worst(side, area, largest, sorted[end - 1].value * scale)) break;
+            area += next;
+            end++;
+        }
+
+        const thickness = area / side;
+        let offset = 0;
+        for (const { value, item } of sorted.slice(start, end)) {
+            const length = (value * scale) / thickness;
+            cells.push({
+                item,
+                rect: width >= height
+                    ? { x, y: y + offset, width: thickness, height: length }
+                    : { x: x + offset, y, width: length, height: thickness }
+            });
+            offset += length;
+        }
+
+        if (width >= height) {
+            x += thickness;
+            width -= thickness;
+        } else {
+            y += thickness;
+            height -= thickness;
+        }
+        start = end;
+    }
+
+    return cells;
+};
+
+const Treemap = ({ files, onExclude }: { files: PackedFile[]; onExclude: (path: string) => void }) => {
+    const total = files.reduce((sum, file) => sum + file.tokens, 0);
+
+    const shapes = useMemo(() => {
+        let root = buildFileTree(files);
+        // A dropped folder is a single root directory, which would only add a frame
+        while (root.children.length === 1 && !root.children[0].file) root = root.children[0];
+
+        const tokensOf = (node: FileTreeNode<PackedFile>) => collectFiles(node).reduce((sum, file) => sum + file.tokens, 0);
+        const leaves: { file: PackedFile; rect: Rect; color: string }[] = [];
+        const directories: { node: FileTreeNode<PackedFile>; rect: Rect }[] = [];
+
+        const layout = (node: FileTreeNode<PackedFile>, rect: Rect, color: string | null) => {
+            const items = node.children.map(child => ({ value: tokensOf(child), item: child }));
+            squarify(items, rect).forEach(({ item: child, rect: cell }, index) => {
+                const cellColor = color ?? TREEMAP_COLORS[index % TREEMAP_COLORS.length];
+                if (child.file) {
+                    leaves.push({ file: child.file, rect: cell, color: cellColor });
+                    return;
+                }
+
+                directories.push({ node: child, rect: cell });
+                const labelled = cell.height > DIRECTORY_LABEL_HEIGHT * 3 && cell.width > 40;
+                const top = labelled ? DIRECTORY_LABEL_HEIGHT : 2;
+                layout(child, {
+                    x: cell.x + 2,
+                    y: cell.y + top,
+                    width: Math.max(cell.width - 4, 0),
+                    height: Math.max(cell.height - top - 2, 0)
+                }, cellColor);
+            });
+        };
+        layout(root, { x: 0, y: 0, width: TREEMAP_WIDTH, height: TREEMAP_HEIGHT }, null);
+
+        return { leaves, directories };
+    }, [files]);
+
+    return (
+        <svg viewBox={`0 0 ${TREEMAP_WIDTH} ${TREEMAP_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Token treemap">
+            {shapes.directories.map(({ node, rect }) => (
+                <g key={node.path}>
+                    <rect {...rect} fill="#f9fafb" stroke="#d1d5db" />
+                    {rect.height > DIRECTORY_LABEL_HEIGHT * 3 && rect.width > 40 && (
+                        <text x={rect.x + 3} y={rect.y + 10} fontSize={9} fill="#4b5563">
+                            {node.name}/
+                        </text>
+                    )}
+                </g>
+            ))}
+            {shapes.leaves.map(({ file, rect, color }) => (
+                <g key={file.path} onClick={() => onExclude(file.path)} className="cursor-pointer">
+                    <title>
+                        {`${file.path}: ${file.tokens.toLocaleString()} tokens (${((file.tokens / total) * 100).toFixed(1)}%), click to exclude`}
+                    </title>
+                    <rect {...rect} fill={color} fillOpacity={0.75} stroke="#fff" className="hover:opacity-80" />
+                    {rect.width > 50 && rect.height > 14 && (
+                        <text x={rect.x + 3} y={rect.y + 11} fontSize={9} fill="#fff">
+                            {file.path.slice(file.path.lastIndexOf('/') + 1).slice(0, Math.floor(rect.width / 5.5))}
+                        </text>
+                    )}
+                </g>
+            ))}
+        </svg>
+    );
+};
+
+// Bytes, tokens and share of the output per file, directory or extension, and a token treemap.
+// Clicking a row or cell excludes it (or includes it back) and regenerates the output.
+const FileStats = ({ files, skipped, selected, view, onViewChange, onToggle }: FileStatsProps) => {
+    const totalTokens = files.reduce((sum, file) => sum + file.tokens, 0);
+
+    const rows = useMemo(() => {
+        const fileRows: StatsRow[] = [
+            ...files.map(({ path, size, tokens }) => ({ key: path, label: path, size, tokens, paths: [path] })),
+            // Skipped files have no token count, but can be included from here
+            ...skipped.map(({ path, reason }) => ({ key: path, label: path, size: 0, tokens: 0, paths: [path], reason }))
+        ];
+
+        const grouped = view.grouping === 'directory' ? groupRows(fileRows, directoryOf)
+            : view.grouping === 'extension' ? groupRows(fileRows, extensionOf)
+                : fileRows;
+
+        const direction = view.descending ? -1 : 1;
+        return [...grouped].sort((a, b) => {
+            const order = view.sortKey === 'name' ? a.label.localeCompare(b.label) : a[view.sortKey] - b[view.sortKey];
+            return direction * order || a.label.localeCompare(b.label);
+        });
+    }, [files, skipped, view]);
+
+    const sortBy = (sortKey: SortKey) => {
+        onViewChange({
+            ...view,
+            sortKey,
+            // Names read best A to Z, numbers largest first
+            descending: view.sortKey === sortKey ? !view.descending : sortKey !== 'name'
+        });
+    };
+
+    const toggleRow = (row: StatsRow) => {
+        // Groups are excluded as long as any of their files is included
+        const include = row.paths.every(path => !selected.has(path));
+        onToggle(row.paths, include);
+    };
+
+    const SortHeader = ({ sortKey, label, className }: { sortKey: SortKey; label: string; className?: string }) => (
+        <th className={`px-2 py-1.5 font-medium ${className ?? ''}`}>
+            <button onClick={() => sortBy(sortKey)} className="inline-flex items-center gap-1 hover:text-gray-900">
+                {label}
+                {view.sortKey === sortKey && (view.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+            </button>
+        </th>
+    );
+
+    return (
+        <div className="bg-white rounded-xl overflow-hidden border border-gray-200 shadow-lg flex flex-col">
+            <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-gray-200 bg-gray-50">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <BarChart3 className="w-4 h-4 text-gray-500" />
+                    <span>Stats</span>
+                </div>
+                <div className="flex rounded-md border border-gray-300 overflow-hidden text-xs">
+                    {GROUPINGS.map(({ id, label }) => (
+                        <button
+                            key={id}
+                            onClick={() => onViewChange({ ...view, grouping: id })}
+                            className={`px-2 py-1 ${view.grouping === id ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {view.grouping === 'treemap' ? (
+                <div className="p-3">
+                    <Treemap files={files} onExclude={path => onToggle([path], false)} />
+                    <p className="mt-2 text-xs text-gray-500">Area is proportional to tokens. Click a file to exclude it.</p>
+                </div>
+            ) : (
+                <div className="max-h-[70vh] overflow-y-auto">
+                    <table className="w-full text-xs">
+                        <thead className="sticky top-0 bg-white text-left text-gray-500 border-b border-gray-200">
+                            <tr>
+                                <SortHeader sortKey="name" label={GROUPINGS.find(({ id }) => id === view.grouping)?.column ?? 'File'} />
+                                <SortHeader sortKey="size" label="Size" className="text-right" />
+                                <SortHeader sortKey="tokens" label="Tokens" className="text-right" />
+                                <th className="px-2 py-1.5 font-medium text-right">Share</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((row) => {
+                                const included = row.paths.some(path => selected.has(path));
+                                const share = totalTokens > 0 ? (row.tokens / totalTokens) * 100 : 0;
+                                return (
+                                    <tr
+                                        key={row.key}
+                                        onClick={() => toggleRow(row)}
+                                        className={`cursor-pointer border-b border-gray-100 hover:bg-blue-50 ${included ? 'text-gray-800' : 'text-gray-400 line-through'}`}
+                                        title={included ? 'Click to exclude and regenerate' : 'Click to include and regenerate'}
+                                    >
+                                        <td className="px-2 py-1 font-mono break-all">
+                                            {row.label}
+                                            {row.reason && (
+                                                <span className="ml-1 text-gray-400">({SKIP_REASON_LABELS[row.reason]})</span>
+                                            )}
+                                        </td>
+                                        <td className="px-2 py-1 text-right whitespace-nowrap">
+                                            {row.size > 0 ? `${(row.size / 1024).toFixed(1)}KB` : '—'}
+                                        </td>
+                                        <td className="px-2 py-1 text-right whitespace-nowrap">
+                                            {row.tokens > 0 ? row.tokens.toLocaleString() : '—'}
+                                        </td>
+                                        <td className="px-2 py-1 text-right whitespace-nowrap">
+                                            <div className="flex items-center justify-end gap-1">
+                                                <div className="w-10 h-1.5 rounded bg-gray-100 overflow-hidden">
+                                                    <div className="h-full bg-blue-500" style={{ width: `${share}%` }} />
+                                                </div>
+                                                {share > 0 ? `${share.toFixed(1)}%` : ''}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FileStats;
@@ -0,0 +1,226 @@
+"use client";
+
+import { ChevronDown, ChevronRight, FileText, Folder, Loader, Sparkles, X } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import {
+    AdvancedSettings, FileCandidate, FileTreeNode, SkipReason,
+    buildFileTree, collectFiles, measureCandidates
+} from '@/lib';
+
+interface FileTreePickerProps {
+    candidates: FileCandidate[];
+    // Local files are read to count exact tokens, remote ones are estimated from their size
+    local: boolean;
+    settings: AdvancedSettings;
+    // Token counting for local files, e.g. in a worker. Defaults to reading them on the main thread.
+    measure?: typeof measureCandidates;
+    onGenerate: (selected: Set<string>) => void;
+    onCancel: () => void;
+}
+
+interface NodeSummary {
+    selected: number;
+    total: number;
+    tokens: number;
+}
+
+const SKIP_REASON_LABELS: Partial<Record<SkipReason, string>> = {
+    pattern: 'excluded by pattern',
+    ignored: 'ignored by .gitignore / .sacignore',
+    type: 'file type not allowed',
+    size: 'larger than 10MB'
+};
+
+const FileTreePicker = ({ candidates, local, settings, measure = measureCandidates, onGenerate, onCancel }: FileTreePickerProps) => {
+    const tree = useMemo(() => buildFileTree(candidates), [candidates]);
+    const [selected, setSelected] = useState(() => new Set(
+        candidates.filter(candidate => !candidate.skipReason).map(candidate => candidate.path)
+    ));
+    const [expanded, setExpanded] = useState(() => new Set(
+        candidates.flatMap(({ path }) => {
+            // Expand the first two directory levels
+            const segments = path.split('/').slice(0, -1);
+            return segments.slice(0, 2).map((_, i) => segments.slice(0, i + 1).join('/'));
+        })
+    ));
+    const [tokens, setTokens] = useState<Record<string, number>>({});
+    const [measuring, setMeasuring] = useState(false);
+
+    // Token cost per file: exact for local files, estimated from size for remote ones
+    useEffect(() => {
+        if (!local) {
+            // Same ratio as the fast estimate (1 token ≈ 4 chars)
+            setTokens(Object.fromEntries(candidates.map(({ path, size }) => [path, Math.ceil((size ?? 0) / 4)])));
+            return;
+        }
+
+        const controller = new AbortController();
+        setMeasuring(true);
+
+        measure(candidates, settings, {
+            signal: controller.signal,
+            onMeasured: measured => setTokens(current => ({ ...current, ...measured }))
+        })
+            .catch((error) => {
+                if (!controller.signal.aborted) console.warn('Error measuring files:', error);
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setMeasuring(false);
+            });
+
+        return () => controller.abort();
+    }, [candidates, local, settings, measure]);
+
+    const summaries = useMemo(() => {
+        const result = new Map<string, NodeSummary>();
+
+        const summarize = (node: FileTreeNode<FileCandidate>): NodeSummary => {
+            let summary: NodeSummary;
+            if (node.file) {
+                const isSelected = selected.has(node.path);
+                summary = {
+                    selected: isSelected ? 1 : 0,
+                    total: 1,
+                    tokens: isSelected ? tokens[node.path] ?? 0 : 0
+                };
+            } else {
+                summary = node.children.map(summarize).reduce(
+                    (sum, child) => ({
+                        selected: sum.selected + child.selected,
+                        total: sum.total + child.total,
+                        tokens: sum.tokens + child.tokens
+                    }),
+                    { selected: 0, total: 0, tokens: 0 }
+                );
+            }
+            result.set(node.path, summary);
+            return summary;
+        };
+
+        summarize(tree);
+        return result;
+    }, [tree, selected, tokens]);
+
+    const toggleExpanded = (path: string) => {
+        setExpanded(current => {
+            const next = new Set(current);
+            if (next.has(path)) {
+                next.delete(path);
+            } else {
+                next.add(path);
+            }
+            return next;
+        });
+    };
+
+    const toggleSelected = (node: FileTreeNode<FileCandidate>) => {
+        const files = collectFiles(node);
+        // Folders select only their eligible files, unless every file in them was excluded
+        const eligible = files.filter(file => !file.skipReason);
+        const targets = node.file || eligible.length === 0 ? files : eligible;
+        const allSelected = targets.every(file => selected.has(file.path));
+
+        setSelected(current => {
+            const next = new Set(current);
+            targets.forEach(file => (allSelected ? next.delete(file.path) : next.add(file.path)));
+            return next;
+        });
+    };
+
+    const formatTokens = (count: number) => `${local ? '' : '~'}${count.toLocaleString()}`;
+
+    const renderNode = (node: FileTreeNode<FileCandidate>, depth: number) => {
+        const summary = summaries.get(node.path) ?? { selected: 0, total: 0, tokens: 0 };
+        const isOpen = expanded.has(node.path);
+        const excluded = node.file?.skipReason;
+
+        return (
+            <li key={node.path}>
+                <div
+                    className={`flex items-center gap-2 py-1 pr-2 rounded hover:bg-gray-100 ${excluded && !summary.selected ? 'text-gray-400' : 'text-gray-800'}`}
+                    style={{ paddingLeft: `${depth * 1.25 + 0.5}rem` }}
+                >
+                    {node.file ? (
+                        <span className="w-4" />
+                    ) : (
+                        <button
+                            onClick={() => toggleExpanded(node.path)}
+                            className="text-gray-500 hover:text-gray-700"
+                            aria-label={isOpen ? `Collapse ${node.name}` : `Expand ${node.name}`}
+                        >
+                            {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </button>
+                    )}
+                    <input
+                        type="checkbox"
+                        checked={summary.selected > 0 && summary.selected === summary.total}
+                        ref={(input) => {
+                            if (input) input.indeterminate = summary.selected > 0 && summary.selected < summary.total;
+                        }}
+                        onChange={() => toggleSelected(node)}
+                        className="rounded border-gray-300"
+                        aria-label={`Include ${node.path}`}
+                    />
+                    {node.file ? (
+                        <FileText className="w-4 h-4 flex-shrink-0" />
+                    ) : (
+                        <Folder className="w-4 h-4 flex-shrink-0 text-blue-500" />
+                    )}
+                    <span className="truncate font-mono text-sm">{node.name}</span>
+                    {excluded && SKIP_REASON_LABELS[excluded] && (
+                        <span className="text-xs text-gray-400 whitespace-nowrap">{SKIP_REASON_LABELS[excluded]}</span>
+                    )}
+                    <span className="ml-auto text-xs text-gray-500 whitespace-nowrap">
+                        {summary.tokens > 0 ? `${formatTokens(summary.tokens)} tokens` : ''}
+                    </span>
+                </div>
+                {!node.file && isOpen && (
+                    <ul>{node.children.map(child => renderNode(child, depth + 1))}</ul>
+                )}
+            </li>
+        );
+    };
+
+    const total = summaries.get('') ?? { selected: 0, total: 0, tokens: 0 };
+    const overLimit = settings.tokenLimit > 0 && total.tokens > settings.tokenLimit;
+
+    return (
+        <div className="bg-white rounded-xl overflow-hidden border border-gray-200 shadow-lg mb-8">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-gray-50">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <Folder className="w-4 h-4 text-gray-500" />
+                    <span>
+                        {total.selected} of {total.total} files selected
+                    </span>
+                    {measuring && <Loader className="w-4 h-4 animate-spin" />}
+                </div>
+                <div className="flex items-center gap-4">
+                    <span className={`text-sm ${overLimit ? 'text-amber-600 font-medium' : 'text-gray-600'}`}>
+                        {formatTokens(total.tokens)}
+                        {settings.tokenLimit > 0 ? ` / ${settings.tokenLimit.toLocaleString()}` : ''} tokens
+                    </span>
+                    <button
+                        onClick={onCancel}
+                        className="p-1.5 text-gray-500 hover:text-red-500 transition-colors"
+                        aria-label="Cancel"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => onGenerate(selected)}
+                        disabled={total.selected === 0}
+                        className="flex items-center gap-1.5 text-sm px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-md transition-colors"
+                    >
+                        <Sparkles className="w-4 h-4" />
+                        <span>Generate</span>
+                    </button>
+                </div>
+            </div>
+            <ul className="p-2 max-h-[60vh] overflow-y-auto">
+                {tree.children.map(child => renderNode(child, 0))}
+            </ul>
+        </div>
+    );
+};
+
+export default FileTreePicker;
@@ -1,60 +1,133 @@
 "use client";
 
 import {
-    BotIcon, Check, Copy, FileText,
-    FolderOpen, Github, Loader, Shield,
+    BotIcon, Check, Copy, FileArchive, FileText,
+    FolderOpen, GitBranch, Github, Gitlab, Loader, Shield,
     Sparkles, Terminal, Trash2, Zap, Settings, Plus, Minus,
-    ChevronDown, ChevronUp,
+    ChevronDown, ChevronUp, RefreshCw,
     Info, Heart,
     ArrowUpRight,
     X,
     BoltIcon
 } from 'lucide-react';
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import FileTreePicker from './FileTreePicker';
+import FileStats, { DEFAULT_STATS_VIEW, StatsView } from './FileStats';
+import { listInWorker, measureInWorker, packInWorker } from '../workers/packWorkerClient';
+import {
+    ARCHIVE_ACCEPT, AdvancedSettings, ContextPart, DEFAULT_SETTINGS, PROFILES_STORAGE_KEY, STORAGE_KEY, SettingsProfile,
+    ESTIMATE_TOKENIZER, MINIFY_LEVELS, MinifyLevel, OUTPUT_FORMATS, OutputFormat, TOKENIZERS, Tokenizer, TokenizerId,
+    PRIORITY_RULES, PROVIDERS, Redaction, SECRET_DETECTORS, PriorityRuleId, ProviderId, collectEntryFiles, createRepositorySource, loadTokenizer,
+    FileCandidate, RepoInfo, LocalFile, PackProgress, PackResult, RateLimit, RateLimitError,
+    collectHandleFiles, copyToMemory, detectProvider, ensureReadPermission, expandArchives, githubProvider, idbGet, idbSet, listCandidates,
+    createProfileId, exportProfile, findProfileForRepo, importProfile, isRecord, normalizeProfile, toProfileSettings,
+    LoadedSettings, OUTPUT_SETTINGS, SETTINGS_VERSION, loadSettings, serializeSettings,
+    AccessTokens, GithubTokenInfo, TOKEN_SETTINGS, TOKEN_STORAGE_MODES, TOKENS_STORAGE_KEY, TokenStorageMode,
+    BLOB_CACHE_LIMIT, BlobCacheUsage, clearBlobCache, getBlobCacheUsage,
+    TokensKey, decryptTokens, deriveTokensKey, encryptTokens, fetchGithubTokenInfo, hasTokens, isEncryptedTokens, pickTokens,
+    measureCandidates, packCandidates, parseRepoUrl, skipDefaultDirectory
+} from '@/lib';
 
 // Type definitions
-interface AdvancedSettings {
-    tokenLimit: number;
-    excludePatterns: string[];
-    removeComments: boolean;
-    minifyCode: boolean;
-    allowedFormats: string;
-    githubToken: string;
-    githubUrl: string;
+// Files listed from a drop or a repository, waiting to be picked in the file tree
+interface PendingFiles {
+    candidates: FileCandidate[];
+    local: boolean;
+    // Dropped files, processed in a worker
+    files?: LocalFile[];
+    // Pull request, commit or comparison the files changed in, see `FileSource.header`
+    header?: string;
+}
+
+// Folder picked with the File System Access API, which can be read again with Refresh
+interface OpenDirectory {
+    handle: FileSystemDirectoryHandle;
+    files: LocalFile[];
+}
+
+// Input of the current output, kept to regenerate it with other files
+interface PackedInput {
+    // Dropped or picked files, packed in a worker
+    files?: LocalFile[];
+    // Listed repository files
+    candidates?: FileCandidate[];
+    header?: string;
+    // Settings the output was packed with, see `rerenderOutput`
+    settings: AdvancedSettings;
+    // Files the user included, see `getIncludedPaths`
+    selected: Set<string>;
 }
 
-interface GitHubInputProps {
-    onProcess: (processing: boolean, result?: any) => void;
+// Files the token limit left out or shortened, listed under the output
+interface BudgetReport {
+    leftOut: string[];
+    shortened: { path: string; omittedLines: number }[];
+}
+
+// Where packed files come from, without what was picked from them
+type PackInput = Omit<PackedInput, 'selected' | 'settings'>;
+
+// Output settings changed in a row (typing a token limit) re-render once
+const RERENDER_DELAY = 300;
+
+interface RepositoryInputProps {
+    // With the listed files the result was packed from, to regenerate it with other files
+    onProcess: (processing: boolean, result?: PackResult, input?: Pick<PackedInput, 'candidates' | 'header' | 'settings'>) => void;
+    onListed: (pending: PendingFiles) => void;
+    onError: (error: unknown, url: string) => void;
+    startJob: () => AbortSignal;
+    onProgress: (progress: PackProgress) => void;
+    onRateLimit: (rateLimit: RateLimit) => void;
+    rateLimit: RateLimit | null;
+    // Repository whose fetch stopped at the rate limit and can be resumed
+    resumeUrl: string | null;
     processing: boolean;
     settings: AdvancedSettings;
     updateSettings: (updates: Partial<AdvancedSettings>) => void;
+    profiles: SettingsProfile[];
+    // Called with the profile attached to the repository, if any: switches to it and returns
+    // the settings to use right away
+    onAttachProfile: (profile: SettingsProfile | null) => AdvancedSettings;
 }
 
-// Constants
-const DEFAULT_ACCEPTED_TYPES = [
-    '.js', '.jsx', '.ts', '.tsx', '.vue', '.svelte', '.html', '.css', '.scss',
-    '.py', '.rb', '.go', '.rs', '.java', '.kt', '.swift', '.cpp', '.c', '.cs',
-    '.sql', '.json', '.yaml', '.toml', '.env', '.md', '.txt', '.csv'
-];
-const DEFAULT_SKIP_PATTERNS = [
-    'node_modules', 'vendor', 'dist', 'build', '.git',
-    '__pycache__', 'venv', '.env', 'coverage', 'tmp'
-];
-const STORAGE_KEY = 'sac_advanced_settings';
-const DEFAULT_SETTINGS: AdvancedSettings = {
-    tokenLimit: 100000,
-    excludePatterns: [],
-    removeComments: false,
-    minifyCode: false,
-    allowedFormats: DEFAULT_ACCEPTED_TYPES.join('\n'),
-    githubToken: '',
-    githubUrl: ''
+const formatRateLimit = ({ remaining, limit, reset }: RateLimit) => (
+    `API quota: ${remaining.toLocaleString()} of ${limit.toLocaleString()} requests left, resets at ${reset.toLocaleTimeString()}`
+);
+
+// Packed files, and those only the token limit or a read error left out
+const getIncludedPaths = (result: PackResult): Set<string> => new Set([
+    ...result.files.map(file => file.path),
+    ...result.skipped.filter(file => file.reason === 'budget' || file.reason === 'error').map(file => file.path)
+]);
+
+const getBudgetReport = (result: PackResult): BudgetReport | null => {
+    if (!result.truncated) return null;
+    return {
+        leftOut: result.skipped.filter(file => file.reason === 'budget').map(file => file.path),
+        shortened: result.files
+            .filter(file => file.omittedLines)
+            .map(({ path, omittedLines }) => ({ path, omittedLines: omittedLines ?? 0 }))
+    };
 };
 
 // Settings management hook
+// Describe what was wrong with saved settings, null when they loaded as saved
+const describeLoadedSettings = ({ invalid, version }: LoadedSettings): string | null => {
+    if (version > SETTINGS_VERSION) {
+        return 'Your settings were saved by a newer version of SAC. Settings added since are not kept.';
+    }
+    if (invalid.length > 0) {
+        return `Some saved settings were not valid and were reset to their defaults: ${invalid.join(', ')}.`;
+    }
+    return null;
+};
+
 const useSettings = () => {
     // Initialize settings with default first
     const [settings, setSettings] = useState<AdvancedSettings>(DEFAULT_SETTINGS);
+    const [notice, setNotice] = useState<string | null>(null);
+    // Saving waits for the load, so the defaults never overwrite the saved settings
+    const [loaded, setLoaded] = useState(false);
 
     // Create the updateSettings function
     const updateSettings = useCallback((updates: Partial<AdvancedSettings>) => {
@@ -64,42 +137,248 @@ const useSettings = () => {
         }));
     }, []);
 
-    // Then update from localStorage in useEffect
-    useEffect(() => {
+    const readSettings = useCallback((saved: string) => {
         try {
-            const saved = localStorage.getItem(STORAGE_KEY);
-            if (saved) {
-                const parsed = JSON.parse(saved);
-                // Ensure all properties exist with proper types
-                setSettings({
-                    tokenLimit: Number(parsed.tokenLimit) || DEFAULT_SETTINGS.tokenLimit,
-                    excludePatterns: Array.isArray(parsed.excludePatterns) ? parsed.excludePatterns : DEFAULT_SETTINGS.excludePatterns,
-                    removeComments: Boolean(parsed.removeComments),
-                    minifyCode: Boolean(parsed.minifyCode),
-                    allowedFormats: typeof parsed.allowedFormats === 'string' ? parsed.allowedFormats : DEFAULT_SETTINGS.allowedFormats,
-                    githubToken: String(parsed.githubToken) || DEFAULT_SETTINGS.githubToken,
-                    githubUrl: String(parsed.githubUrl) || DEFAULT_SETTINGS.githubUrl
-                });
-            }
+            const result = loadSettings(JSON.parse(saved));
+            // Tokens are stored apart: only settings saved by an earlier version still hold them
+            setSettings(current => ({
+                ...result.settings,
+                ...Object.fromEntries(TOKEN_SETTINGS.map(key => [key, result.settings[key] || current[key]]))
+            }));
+            setNotice(describeLoadedSettings(result));
         } catch (error) {
             console.error('Error loading settings:', error);
+            setNotice('Your saved settings could not be read and were reset to their defaults.');
         }
     }, []);
 
+    // Then update from localStorage in useEffect
+    useEffect(() => {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved) readSettings(saved);
+        setLoaded(true);
+    }, [readSettings]);
+
+    // Follow changes made in other tabs
+    useEffect(() => {
+        const handleStorage = (event: StorageEvent) => {
+            if (event.key === STORAGE_KEY && event.newValue) readSettings(event.newValue);
+        };
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
+    }, [readSettings]);
+
     // Save settings to localStorage whenever they change
     useEffect(() => {
+        if (!loaded) return;
         try {
-            localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+            const serialized = serializeSettings(settings);
+            // Writing the value another tab just saved would echo it back to that tab
+            if (localStorage.getItem(STORAGE_KEY) !== serialized) {
+                localStorage.setItem(STORAGE_KEY, serialized);
+            }
         } catch (error) {
             console.error('Error saving settings:', error);
         }
-    }, [settings]);
+    }, [settings, loaded]);
 
     return {
         settings,
         setSettings,
-        updateSettings
+        updateSettings,
+        loaded,
+        notice,
+        dismissNotice: () => setNotice(null)
+    };
+};
+
+// Keep the access tokens where `tokenStorage` says, once the settings are loaded
+const useAccessTokens = (
+    settings: AdvancedSettings,
+    updateSettings: (updates: Partial<AdvancedSettings>) => void,
+    loaded: boolean
+) => {
+    // Key derived from the passphrase of the encrypted tokens, only ever kept in memory
+    const [tokensKey, setTokensKey] = useState<TokensKey | null>(null);
+    // Encrypted tokens saved in an earlier visit, waiting for the passphrase
+    const [locked, setLocked] = useState(false);
+    const serializedTokens = JSON.stringify(pickTokens(settings));
+
+    useEffect(() => {
+        try {
+            const saved = sessionStorage.getItem(TOKENS_STORAGE_KEY);
+            if (saved) updateSettings(pickTokens(JSON.parse(saved)));
+            setLocked(isEncryptedTokens(JSON.parse(localStorage.getItem(TOKENS_STORAGE_KEY) ?? 'null')));
+        } catch (error) {
+            console.error('Error loading access tokens:', error);
+        }
+    }, [updateSettings]);
+
+    useEffect(() => {
+        if (!loaded) return;
+        const tokens: AccessTokens = JSON.parse(serializedTokens);
+        const mode = settings.tokenStorage;
+
+        try {
+            if (mode === 'session' && hasTokens(tokens)) {
+                sessionStorage.setItem(TOKENS_STORAGE_KEY, serializedTokens);
+            } else {
+                sessionStorage.removeItem(TOKENS_STORAGE_KEY);
+            }
+
+            if (mode !== 'encrypted') {
+                localStorage.removeItem(TOKENS_STORAGE_KEY);
+                setLocked(false);
+                return;
+            }
+            // Until the passphrase is entered, the saved tokens are kept as they are
+            if (!tokensKey) return;
+            if (!hasTokens(tokens)) {
+                localStorage.removeItem(TOKENS_STORAGE_KEY);
+                return;
+            }
+        } catch (error) {
+            console.error('Error saving access tokens:', error);
+            return;
+        }
+
+        let cancelled = false;
+        encryptTokens(tokens, tokensKey)
+            .then(encrypted => !cancelled && localStorage.setItem(TOKENS_STORAGE_KEY, JSON.stringify(encrypted)))
+            .catch(error => console.error('Error saving access tokens:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [serializedTokens, settings.tokenStorage, tokensKey, loaded]);
+
+    // Set the passphrase new tokens are encrypted with
+    const setPassphrase = async (value: string) => {
+        setTokensKey(await deriveTokensKey(value));
+    };
+
+    // Decrypt the saved tokens, throws on a wrong passphrase. Tokens entered since the page loaded are kept.
+    const unlock = async (value: string) => {
+        const encrypted: unknown = JSON.parse(localStorage.getItem(TOKENS_STORAGE_KEY) ?? 'null');
+        if (!isEncryptedTokens(encrypted)) throw new Error('No saved tokens to unlock');
+
+        const key = await deriveTokensKey(value, encrypted);
+        const saved = await decryptTokens(encrypted, key);
+        updateSettings(Object.fromEntries(TOKEN_SETTINGS.map(name => [name, settings[name] || saved[name]])));
+        setTokensKey(key);
+        setLocked(false);
     };
+
+    // Forgetting every token also forgets the passphrase and the encrypted tokens
+    const forgetTokens = (keys: readonly (keyof AccessTokens)[] = TOKEN_SETTINGS) => {
+        updateSettings(Object.fromEntries(keys.map(key => [key, ''])));
+        if (keys.length === TOKEN_SETTINGS.length) {
+            localStorage.removeItem(TOKENS_STORAGE_KEY);
+            setTokensKey(null);
+            setLocked(false);
+        }
+    };
+
+    return { locked, hasPassphrase: tokensKey !== null, setPassphrase, unlock, forgetTokens };
+};
+
+interface ProfilesState {
+    profiles: SettingsProfile[];
+    activeId: string | null;
+}
+
+// Named settings profiles, stored next to the settings
+const useProfiles = () => {
+    const [state, setState] = useState<ProfilesState>({ profiles: [], activeId: null });
+    // Saving waits for the load, so the empty list never overwrites the saved profiles
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        try {
+            const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+            const parsed: unknown = saved ? JSON.parse(saved) : null;
+            if (isRecord(parsed)) {
+                const profiles = (Array.isArray(parsed.profiles) ? parsed.profiles : [])
+                    .map(normalizeProfile)
+                    .filter((profile): profile is SettingsProfile => profile !== null);
+                const activeId = profiles.find(profile => profile.id === parsed.activeId)?.id ?? null;
+                setState({ profiles, activeId });
+            }
+        } catch (error) {
+            console.error('Error loading profiles:', error);
+        }
+        setLoaded(true);
+    }, []);
+
+    useEffect(() => {
+        if (!loaded) return;
+        try {
+            localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(state));
+        } catch (error) {
+            console.error('Error saving profiles:', error);
+        }
+    }, [state, loaded]);
+
+    // Add a profile, or replace the one with the same id
+    const saveProfile = useCallback((profile: SettingsProfile) => {
+        setState(current => ({
+            ...current,
+            profiles: current.profiles.some(({ id }) => id === profile.id)
+                ? current.profiles.map(existing => (existing.id === profile.id ? profile : existing))
+                : [...current.profiles, profile]
+        }));
+    }, []);
+
+    const deleteProfile = useCallback((id: string) => {
+        setState(current => ({
+            profiles: current.profiles.filter(profile => profile.id !== id),
+            activeId: current.activeId === id ? null : current.activeId
+        }));
+    }, []);
+
+    const setActiveId = useCallback((activeId: string | null) => {
+        setState(current => ({ ...current, activeId }));
+    }, []);
+
+    return { ...state, saveProfile, deleteProfile, setActiveId };
+};
+
+// IndexedDB key of the last picked folder
+const SAVED_DIRECTORY_KEY = 'directory';
+
+// Remembers the last picked folder across visits, so it can be reopened without picking it again
+const useSavedDirectory = () => {
+    const [savedDirectory, setSavedDirectory] = useState<FileSystemDirectoryHandle | null>(null);
+
+    useEffect(() => {
+        idbGet<FileSystemDirectoryHandle>('handles', SAVED_DIRECTORY_KEY)
+            .then(handle => setSavedDirectory(handle ?? null))
+            .catch(error => console.error('Error loading saved folder:', error));
+    }, []);
+
+    const saveDirectory = useCallback((handle: FileSystemDirectoryHandle) => {
+        setSavedDirectory(handle);
+        idbSet('handles', SAVED_DIRECTORY_KEY, handle)
+            .catch(error => console.error('Error saving folder:', error));
+    }, []);
+
+    return { savedDirectory, saveDirectory };
+};
+
+// Loads the selected tokenizer, counting with the fast estimate until it's ready
+const useTokenizer = (id: TokenizerId) => {
+    const [tokenizer, setTokenizer] = useState<Tokenizer>(ESTIMATE_TOKENIZER);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadTokenizer(id).then((loaded) => {
+            if (!cancelled) setTokenizer(loaded);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [id]);
+
+    return tokenizer;
 };
 
 const SAC = () => {
@@ -107,29 +386,82 @@ const SAC = () => {
     const [content, setContent] = useState('');
     const [isDragging, setIsDragging] = useState(false);
     const [fileCount, setFileCount] = useState(0);
-    const [copied, setCopied] = useState(false);
+    // Which copy button was last used: 'all' or a part index
+    const [copied, setCopied] = useState<string | null>(null);
+    const [parts, setParts] = useState<ContextPart[]>([]);
+    const [budgetReport, setBudgetReport] = useState<BudgetReport | null>(null);
+    const [redactions, setRedactions] = useState<Redaction[]>([]);
+    const [packResult, setPackResult] = useState<PackResult | null>(null);
+    const [packedInput, setPackedInput] = useState<PackedInput | null>(null);
+    // Tokens the last settings change saved (negative) or added, see `rerenderOutput`
+    const [tokenDelta, setTokenDelta] = useState<number | null>(null);
+    const [rerendering, setRerendering] = useState(false);
+    const rerenderJob = useRef<AbortController | null>(null);
+    // Kept here so sorting and grouping survive regenerating
+    const [statsView, setStatsView] = useState<StatsView>(DEFAULT_STATS_VIEW);
     const [totalSize, setTotalSize] = useState(0);
     const [processing, setProcessing] = useState(false);
     const [generating, setGenerating] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const { settings, updateSettings, setSettings } = useSettings();
+    const [pendingFiles, setPendingFiles] = useState<PendingFiles | null>(null);
+    const { settings, updateSettings, setSettings, loaded, notice: settingsNotice, dismissNotice } = useSettings();
+    const { locked: tokensLocked, hasPassphrase, setPassphrase, unlock, forgetTokens } = useAccessTokens(settings, updateSettings, loaded);
+    const [passphraseInput, setPassphraseInput] = useState('');
+    const [passphraseError, setPassphraseError] = useState<string | null>(null);
+    const [cacheUsage, setCacheUsage] = useState<BlobCacheUsage | null>(null);
+    const [tokenCheck, setTokenCheck] = useState<{ info?: GithubTokenInfo; error?: string; checking?: boolean } | null>(null);
+    const { profiles, activeId: activeProfileId, saveProfile, deleteProfile, setActiveId: setActiveProfileId } = useProfiles();
+    const [newProfileName, setNewProfileName] = useState('');
+    // Profile switched to automatically for the last repository
+    const [attachedProfile, setAttachedProfile] = useState<string | null>(null);
+    const profileInputRef = useRef<HTMLInputElement>(null);
+    const tokenizer = useTokenizer(settings.tokenizer);
 
     // Advanced settings state
     const [showAdvanced, setShowAdvanced] = useState(false);
+    // Output settings shown under the output, to re-render it
+    const [showOutputSettings, setShowOutputSettings] = useState(false);
     const [newPattern, setNewPattern] = useState('');
     const [tokenLimit, setTokenLimit] = useState(settings.tokenLimit);
     const [currentTokens, setCurrentTokens] = useState(0);
     const copyTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-    const processingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+    const [directory, setDirectory] = useState<OpenDirectory | null>(null);
+    const { savedDirectory, saveDirectory } = useSavedDirectory();
+    // Running drop or generate job, stopped with the Stop button
+    const [job, setJob] = useState<AbortController | null>(null);
+    const [progress, setProgress] = useState<PackProgress | null>(null);
+    const [rateLimit, setRateLimit] = useState<RateLimit | null>(null);
+    const [resumeUrl, setResumeUrl] = useState<string | null>(null);
+
+    // Dropped files are measured in a worker, repository files on the main thread
+    const measurePending = useMemo(() => {
+        const files = pendingFiles?.files;
+        if (!files) return measureCandidates;
+        return (candidates: FileCandidate[], settings: AdvancedSettings, options: Parameters<typeof measureCandidates>[2]) => (
+            measureInWorker(files, candidates, settings, options)
+        );
+    }, [pendingFiles]);
 
     // Cleanup effect
     useEffect(() => {
         return () => {
             if (copyTimeoutRef.current) clearTimeout(copyTimeoutRef.current);
-            if (processingTimeoutRef.current) clearTimeout(processingTimeoutRef.current);
         };
     }, []);
 
+    // Size of the repository file cache, shown in Advanced Settings
+    useEffect(() => {
+        if (!showAdvanced) return;
+        getBlobCacheUsage().then(setCacheUsage).catch(() => setCacheUsage(null));
+    }, [showAdvanced]);
+
+    // A check is of the token it was made with
+    useEffect(() => {
+        setTokenCheck(null);
+    }, [settings.githubToken]);
+
     // Sync tokenLimit with settings
     useEffect(() => {
         setTokenLimit(settings.tokenLimit);
@@ -137,230 +469,322 @@ const SAC = () => {
 
     // Reset token count when content changes
     useEffect(() => {
-        const count = estimateTokenCount(content);
+        const count = tokenizer.count(content);
         setCurrentTokens(count);
-    }, [content]);
-
-    // Effect to save settings
-    useEffect(() => {
-        try {
-            localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
-        } catch (error) {
-            console.error('Error saving settings:', error);
-        }
-    }, [settings]);
-
-    // Processing timeout effect
-    useEffect(() => {
-        if (processing || generating) {
-            processingTimeoutRef.current = setTimeout(() => {
-                setProcessing(false);
-                setGenerating(false);
-                setError('Processing timed out. Please try again with fewer files.');
-            }, 30000);
-
-            return () => {
-                if (processingTimeoutRef.current) {
-                    clearTimeout(processingTimeoutRef.current);
-                }
-            };
-        }
-    }, [processing, generating]);
+    }, [content, tokenizer]);
 
     // Utility functions
-    const handleGitHubProcess = (processing, result = { content: "", fileCount: 0, totalSize: 0, tokenCount: 0 }) => {
+    const handleRepoProcess = (processing: boolean, result?: PackResult, input?: Pick<PackedInput, 'candidates' | 'header' | 'settings'>) => {
         setProcessing(processing);
         setGenerating(processing);
+        if (processing) {
+            setError(null);
+            setDirectory(null);
+        } else {
+            endJob();
+        }
 
-        if (result && result.content != "") {
+        if (result && result.content !== "") {
+            setResumeUrl(null);
             setContent(result.content);
             setFileCount(result.fileCount);
             setTotalSize(result.totalSize);
             setCurrentTokens(result.tokenCount);
+            setParts(result.parts);
+            setBudgetReport(getBudgetReport(result));
+            setRedactions(result.redactions);
+            setPackResult(result);
+            setTokenDelta(null);
+            setPackedInput(input ? { ...input, selected: getIncludedPaths(result) } : null);
         }
     };
 
-    const shouldSkipEntry = (path: string): boolean => {
-        const normalizedPath = path.toLowerCase();
-
-        // Combine default and user patterns
-        const allPatterns = [
-            ...DEFAULT_SKIP_PATTERNS,
-            ...settings.excludePatterns
-        ].map(pattern => pattern.toLowerCase().trim())
-            .filter(Boolean);
-
-        return allPatterns.some(pattern => {
-            // Convert glob pattern to regex
-            const regexPattern = pattern
-                .replace(/[.+^${}()|[\]\\]/g, '\\$&') // Escape regex special chars
-                .replace(/\*/g, '.*')                  // Convert * to .*
-                .replace(/\?/g, '.');                  // Convert ? to .
-
-            const regex = new RegExp(regexPattern);
-            return regex.test(normalizedPath);
-        });
+    const handleListed = (pending: PendingFiles) => {
+        setPendingFiles(pending);
+        setResumeUrl(null);
     };
 
-    const isAllowedFileType = (filename: string): boolean => {
-        const extension = '.' + filename.split('.').pop()?.toLowerCase();
-        if (!extension) return false;
+    // Start a stoppable job, returning its abort signal
+    const startJob = () => {
+        // A new output replaces the one being re-rendered
+        rerenderJob.current?.abort();
+        const controller = new AbortController();
+        setJob(controller);
+        setProgress(null);
+        return controller.signal;
+    };
 
-        const allowedTypes = settings.allowedFormats
-            .split('\n')
-            .map(type => type.trim().toLowerCase())
-            .filter(Boolean);
+    const endJob = () => {
+        setJob(null);
+        setProgress(null);
+    };
 
-        // If no allowed types are specified, accept all files
-        if (allowedTypes.length === 0) return true;
+    const isCancelled = (error: unknown) => error instanceof Error && error.message === 'Operation cancelled';
 
-        return allowedTypes.includes(extension);
+    const getErrorMessage = (error: unknown) => {
+        if (error instanceof RateLimitError) {
+            return `${error.message}. Files fetched so far are kept: try again after the reset to continue where it stopped.`;
+        }
+        return error instanceof Error ? error.message : 'Error processing files';
     };
 
-    const handleResetSettings = () => {
-        setSettings(DEFAULT_SETTINGS);
-        setTokenLimit(DEFAULT_SETTINGS.tokenLimit);
+    const handleRepoError = (error: unknown, url: string) => {
+        if (isCancelled(error)) return;
+        console.error('Error processing repository:', error);
+        if (error instanceof RateLimitError) setResumeUrl(url);
+        setError(getErrorMessage(error));
     };
 
-    const processFileEntry = async (entry: FileSystemEntry, path = ''): Promise<string> => {
-        const entryPath = path ? `${path}/${entry.name}` : entry.name;
+    const applyResult = (result: PackResult, input: PackInput, packedWith: AdvancedSettings = settings) => {
+        if (result.fileCount === 0) {
+            throw new Error('No valid files found or all files exceeded token limit');
+        }
+
+        setContent(result.content);
+        setParts(result.parts);
+        setBudgetReport(getBudgetReport(result));
+        setRedactions(result.redactions);
+        setFileCount(result.fileCount);
+        setTotalSize(result.totalSize);
+        setPackResult(result);
+        setTokenDelta(null);
+        setPackedInput({ ...input, settings: packedWith, selected: getIncludedPaths(result) });
+    };
 
-        // Check if the entry should be skipped
-        if (shouldSkipEntry(entryPath)) {
-            console.log(`Skipping ${entryPath} due to exclude pattern match`);
-            return '';
+    // Pack the picked files of listed or local input, local files in a worker once copied into memory.
+    // Returns the input with those copies, to pack again from.
+    const packSelection = async (input: PackInput, selected: Set<string>, signal: AbortSignal) => {
+        const options = { selected, signal, onProgress: setProgress, header: input.header };
+        if (!input.files) {
+            return { result: await packCandidates(input.candidates ?? [], settings, options), input };
         }
+        const files = await copyToMemory(input.files, selected, signal);
+        return { result: await packInWorker(files, settings, options), input: { ...input, files } };
+    };
+
+    const handleGenerate = async (selected: Set<string>) => {
+        if (!pendingFiles) return;
+
+        setError(null);
+        setProcessing(true);
+        setGenerating(true);
+        const signal = startJob();
 
         try {
-            if (entry.isFile) {
-                const fileEntry = entry as FileSystemFileEntry;
-                const file = await new Promise<File>((resolve, reject) => {
-                    fileEntry.file(resolve, reject);
-                });
-
-                // Size check
-                if (file.size > 10 * 1024 * 1024) {
-                    console.warn(`Skipping ${file.name}: File too large (${(file.size / 1024 / 1024).toFixed(1)}MB)`);
-                    return '';
-                }
+            const packed = await packSelection(pendingFiles.files
+                ? { files: pendingFiles.files }
+                : { candidates: pendingFiles.candidates, header: pendingFiles.header }, selected, signal);
+            applyResult(packed.result, packed.input);
+            setPendingFiles(null);
+        } catch (error) {
+            if (!isCancelled(error)) {
+                console.error('Error processing files:', error);
+                setError(getErrorMessage(error));
+            }
+        } finally {
+            endJob();
+            setGenerating(false);
+            setProcessing(false);
+        }
+    };
 
-                // Extension check
-                if (!isAllowedFileType(file.name)) {
-                    console.warn(`Skipping ${file.name}: File type not allowed`);
-                    return '';
-                }
+    // Regenerate the output with files included or excluded from the stats panel
+    const handleToggleFiles = async (paths: string[], include: boolean) => {
+        if (!packedInput) return;
 
-                const content = await file.text();
-                setTotalSize(prev => prev + file.size);
-
-                let processedContent = content;
-                if (settings.removeComments) {
-                    // Improved comment removal for different languages
-                    processedContent = processedContent
-                        .replace(/\/\*[\s\S]*?\*\/|([^:]|^)\/\/.*$/gm, '$1') // Remove C-style comments
-                        .replace(/^\s*#.*$/gm, '')                           // Remove shell/python style comments
-                        .replace(/^\s*--.*$/gm, '')                         // Remove SQL style comments
-                        .replace(/^\s*\n/gm, '')                           // Remove empty lines
-                        .trim();
-                }
+        const selected = new Set(packedInput.selected);
+        paths.forEach(path => (include ? selected.add(path) : selected.delete(path)));
+        if (selected.size === 0) {
+            setError('At least one file must stay included');
+            return;
+        }
 
-                if (settings.minifyCode) {
-                    processedContent = processedContent
-                        .replace(/\s+/g, ' ')
-                        .replace(/\n/g, '')
-                        .trim();
-                }
+        setError(null);
+        setProcessing(true);
+        setGenerating(true);
+        const signal = startJob();
 
-                // Normalize path for display
-                const cleanPath = entryPath.replace(/^\/+/, '').replace(/\/+/g, '/');
-                return `\n\n// File: ${cleanPath}\n${processedContent}`;
+        try {
+            const packed = await packSelection(packedInput, selected, signal);
+            applyResult(packed.result, packed.input);
+        } catch (error) {
+            if (!isCancelled(error)) {
+                console.error('Error processing files:', error);
+                setError(getErrorMessage(error));
             }
+        } finally {
+            endJob();
+            setGenerating(false);
+            setProcessing(false);
+        }
+    };
 
-            if (entry.isDirectory) {
-                const dirEntry = entry as FileSystemDirectoryEntry;
-                const reader = dirEntry.createReader();
-
-                // Read all entries in the directory
-                const entries = await new Promise<FileSystemEntry[]>((resolve, reject) => {
-                    const results: FileSystemEntry[] = [];
-
-                    function readEntries() {
-                        reader.readEntries(
-                            (entries) => {
-                                if (entries.length === 0) {
-                                    resolve(results);
-                                } else {
-                                    results.push(...entries);
-                                    readEntries(); // Continue reading
-                                }
-                            },
-                            reject
-                        );
-                    }
-
-                    readEntries();
-                });
-
-                // Process directory contents
-                let combinedContent = '';
-                for (const childEntry of entries) {
-                    const content = await processFileEntry(childEntry, entryPath);
-                    combinedContent += content;
-
-                    // Check token limit
-                    if (settings.tokenLimit > 0 && currentTokens >= settings.tokenLimit) {
-                        console.warn('Token limit reached, stopping directory processing');
-                        break;
-                    }
-                }
+    // Pack the files of the last output again with changed settings, from memory: dropped files are still
+    // in the browser, repository files are cached. Files included or excluded by hand stay so, the others
+    // follow the new filters.
+    const rerenderOutput = async (input: PackedInput, next: AdvancedSettings) => {
+        rerenderJob.current?.abort();
+        const controller = new AbortController();
+        rerenderJob.current = controller;
+        const { signal } = controller;
+        setRerendering(true);
 
-                return combinedContent;
+        const list = (listSettings: AdvancedSettings) => input.files
+            ? listInWorker(input.files, listSettings, { signal })
+            : listCandidates({ local: true, list: async () => input.candidates ?? [] }, listSettings, { signal });
+
+        try {
+            const before = await list(input.settings);
+            const after = await list(next);
+            const includedBefore = new Set(before.filter(({ skipReason }) => !skipReason).map(({ path }) => path));
+            const selected = new Set(after
+                .filter(({ path, skipReason }) => (
+                    includedBefore.has(path) === input.selected.has(path) ? !skipReason : input.selected.has(path)
+                ))
+                .map(({ path }) => path));
+
+            const options = { selected, signal, header: input.header };
+            // Files included for the first time are copied into memory as well
+            const files = input.files && await copyToMemory(input.files, selected, signal);
+            const result = files
+                ? await packInWorker(files, next, options)
+                : await packCandidates(after, next, options);
+            if (signal.aborted) return;
+
+            applyResult(result, files ? { ...input, files } : { ...input, candidates: after }, next);
+            setTokenDelta(result.tokenCount - (packResult?.tokenCount ?? result.tokenCount));
+            setError(null);
+        } catch (error) {
+            if (!isCancelled(error)) {
+                console.error('Error updating the output:', error);
+                setError(getErrorMessage(error));
+            }
+        } finally {
+            if (rerenderJob.current === controller) {
+                rerenderJob.current = null;
+                setRerendering(false);
             }
+        }
+    };
 
-            return '';
+    // Latest version for the effect below, which only runs when settings or the output change
+    const rerenderRef = useRef(rerenderOutput);
+    rerenderRef.current = rerenderOutput;
+
+    useEffect(() => {
+        if (!packedInput || processing) return;
+        const changed = OUTPUT_SETTINGS.some(key => JSON.stringify(settings[key]) !== JSON.stringify(packedInput.settings[key]));
+        if (!changed) return;
+
+        const timer = setTimeout(() => rerenderRef.current(packedInput, settings), RERENDER_DELAY);
+        return () => clearTimeout(timer);
+    }, [settings, packedInput, processing]);
+
+    const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? null;
+    const profileModified = activeProfile !== null
+        && JSON.stringify(toProfileSettings(settings)) !== JSON.stringify(activeProfile.settings);
+
+    // Profile settings replace the current ones, tokens and the last URL are kept
+    const applyProfile = (profile: SettingsProfile): AdvancedSettings => {
+        const next = { ...settings, ...profile.settings };
+        setSettings(next);
+        setActiveProfileId(profile.id);
+        return next;
+    };
+
+    const handleAttachProfile = (profile: SettingsProfile | null) => {
+        setAttachedProfile(profile?.name ?? null);
+        return profile && profile.id !== activeProfileId ? applyProfile(profile) : settings;
+    };
+
+    const handleSelectProfile = (id: string) => {
+        const profile = profiles.find(candidate => candidate.id === id);
+        if (profile) {
+            applyProfile(profile);
+        } else {
+            setActiveProfileId(null);
+        }
+    };
+
+    const handleCreateProfile = () => {
+        const name = newProfileName.trim();
+        if (!name) return;
+
+        const profile = { id: createProfileId(), name, settings: toProfileSettings(settings), repos: [] };
+        saveProfile(profile);
+        setActiveProfileId(profile.id);
+        setNewProfileName('');
+    };
+
+    const handleExportProfile = (profile: SettingsProfile) => {
+        const url = URL.createObjectURL(new Blob([exportProfile(profile)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${profile.name.replace(/[^\w.-]+/g, '-').toLowerCase()}.sac-profile.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    // An imported profile replaces the one with the same name, so re-importing a shared profile updates it
+    const handleImportProfile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const imported = importProfile(await file.text());
+            const existing = profiles.find(profile => profile.name === imported.name);
+            const profile = existing ? { ...imported, id: existing.id } : imported;
+            saveProfile(profile);
+            applyProfile(profile);
+            setError(null);
         } catch (error) {
-            console.error(`Error processing ${entry.name}:`, error);
-            return '';
+            console.error('Error importing profile:', error);
+            setError(error instanceof Error ? error.message : 'Error importing profile');
         }
     };
 
-    const copyToClipboard = async () => {
-        if (!content) return;
+    const handleResetSettings = () => {
+        setSettings(DEFAULT_SETTINGS);
+        setTokenLimit(DEFAULT_SETTINGS.tokenLimit);
+    };
+
+    const copyToClipboard = async (text: string, key: string) => {
+        if (!text) return;
 
         try {
-            await navigator.clipboard.writeText(content);
-            setCopied(true);
+            await navigator.clipboard.writeText(text);
+            setCopied(key);
 
             if (copyTimeoutRef.current) clearTimeout(copyTimeoutRef.current);
-            copyTimeoutRef.current = setTimeout(() => setCopied(false), 2000);
+            copyTimeoutRef.current = setTimeout(() => setCopied(null), 2000);
         } catch (err) {
             console.error('Failed to copy using clipboard API, falling back to execCommand', err);
 
             const textarea = document.createElement('textarea');
-            textarea.value = content;
+            textarea.value = text;
             document.body.appendChild(textarea);
             textarea.select();
             document.execCommand('copy');
             document.body.removeChild(textarea);
 
-            setCopied(true);
+            setCopied(key);
             if (copyTimeoutRef.current) clearTimeout(copyTimeoutRef.current);
-            copyTimeoutRef.current = setTimeout(() => setCopied(false), 2000);
+            copyTimeoutRef.current = setTimeout(() => setCopied(null), 2000);
         }
     };
 
-    // Helper function to estimate token count
-    const estimateTokenCount = (text: string): number => {
-        return Math.ceil(text.length / 4); // Approximate tokens (1 token ≈ 4 chars)
-    };
-
-    const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
-        e.preventDefault();
-        e.stopPropagation();
-
+    // Pack dropped or picked files, with uploaded archives unpacked as if they were a dropped folder
+    const processLocalFiles = async (collect: () => Promise<LocalFile[]>) => {
         // Reset states
-        setIsDragging(false);
+        setDirectory(null);
+        setAttachedProfile(null);
         setContent('');
+        setParts([]);
+        setBudgetReport(null);
+        setRedactions([]);
+        setPackResult(null);
+        setPackedInput(null);
         setFileCount(0);
         setTotalSize(0);
         setError(null);
@@ -369,249 +793,169 @@ const SAC = () => {
         // Set processing states
         setProcessing(true);
         setGenerating(true);
+        const signal = startJob();
 
         try {
-            const items = Array.from(e.dataTransfer.items);
-
-            if (items.length === 0) {
-                throw new Error('No files dropped');
-            }
+            // Only collecting the files happens here, they are read and packed in a worker
+            const files = await expandArchives(await collect());
+            const candidates = await listInWorker(files, settings, { signal });
 
-            let newContent = '';
-            let newFileCount = 0;
-            const entries = items
-                .map(item => item.webkitGetAsEntry())
-                .filter((entry): entry is FileSystemEntry => entry !== null);
-
-            // Process entries
-            for (const entry of entries) {
-                if (currentTokens >= tokenLimit) {
-                    setError(`Token limit (${tokenLimit}) reached. Some files were skipped.`);
-                    break;
+            if (settings.reviewFiles) {
+                if (candidates.length === 0) {
+                    throw new Error('No files found');
                 }
-
-                const content = await processFileEntry(entry);
-                if (content) {
-                    newContent += content;
-                    newFileCount++;
-                }
-            }
-
-            if (newFileCount === 0) {
-                throw new Error('No valid files found or all files exceeded token limit');
+                handleListed({ candidates, local: true, files });
+                return;
             }
 
-            setContent(newContent.trim());
-            setFileCount(newFileCount);
-
-            // Show warning if we hit the token limit
-            if (currentTokens >= tokenLimit) {
-                setError(`Token limit (${tokenLimit}) reached. Some files were skipped.`);
-            }
+            // Only the files that will be packed are copied into memory, see `copyToMemory`
+            const included = new Set(candidates.filter(({ skipReason }) => !skipReason).map(({ path }) => path));
+            const copies = await copyToMemory(files, included, signal);
+            applyResult(await packInWorker(copies, settings, { signal, onProgress: setProgress }), { files: copies });
 
         } catch (error) {
-            console.error('Error processing files:', error);
-            setError(error instanceof Error ? error.message : 'Error processing files');
+            if (!isCancelled(error)) {
+                console.error('Error processing files:', error);
+                setError(error instanceof Error ? error.message : 'Error processing files');
+            }
             setContent('');
+            setParts([]);
             setFileCount(0);
             setTotalSize(0);
             setCurrentTokens(0);
         } finally {
+            endJob();
             setGenerating(false);
             setProcessing(false);
         }
     };
 
-    const GitHubInput: React.FC<GitHubInputProps> = ({ onProcess, processing, settings, updateSettings }) => {
-        // Form state management
-        const [formState, setFormState] = useState({
-            url: settings.githubUrl || '',
-            token: settings.githubToken || '',
-            help: false,
-            error: '',
-            progress: { processed: 0, total: 0 }
-        });
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(false);
 
-        const abortControllerRef = useRef<AbortController | null>(null);
-
-        // Utility functions for file processing
-        const shouldSkipEntry = useCallback((path) => {
-            const normalizedPath = path.toLowerCase();
-
-            // Combine default and user patterns
-            const allPatterns = [
-                // Default patterns
-                'node_modules', 'vendor', 'dist', 'build', '.git',
-                '__pycache__', 'venv', '.env', 'coverage', 'tmp',
-                // User-defined patterns
-                ...(settings.excludePatterns || [])
-            ].map(pattern => pattern.toLowerCase().trim())
-                .filter(Boolean);
-
-            return allPatterns.some(pattern => {
-                const regexPattern = pattern
-                    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-                    .replace(/\*/g, '.*')
-                    .replace(/\?/g, '.');
-                return new RegExp(regexPattern).test(normalizedPath);
-            });
-        }, [settings.excludePatterns]);
-
-        const isAllowedFileType = useCallback((filename) => {
-            const extension = '.' + filename.split('.').pop()?.toLowerCase();
-            if (!extension) return false;
-
-            const allowedTypes = settings.allowedFormats
-                .split('\n')
-                .map(type => type.trim().toLowerCase())
-                .filter(Boolean);
-
-            // If no allowed types are specified, accept all files
-            if (allowedTypes.length === 0) return true;
-
-            return allowedTypes.includes(extension);
-        }, [settings.allowedFormats]);
-
-        // Process content based on settings
-        const processFileContent = useCallback((content) => {
-            let processedContent = content;
-
-            if (settings.removeComments) {
-                processedContent = processedContent
-                    .replace(/\/\*[\s\S]*?\*\/|([^:]|^)\/\/.*$/gm, '$1') // Remove C-style comments
-                    .replace(/^\s*#.*$/gm, '')                           // Remove shell/python style comments
-                    .replace(/^\s*--.*$/gm, '')                         // Remove SQL style comments
-                    .replace(/^\s*\n/gm, '')                           // Remove empty lines
-                    .trim();
-            }
+        const items = Array.from(e.dataTransfer.items);
+        // Entries must be taken before the event handler returns
+        const entries = items
+            .map(item => item.webkitGetAsEntry())
+            .filter((entry): entry is FileSystemEntry => entry !== null);
 
-            if (settings.minifyCode) {
-                processedContent = processedContent
-                    .replace(/\s+/g, ' ')
-                    .replace(/\n/g, '')
-                    .trim();
+        processLocalFiles(async () => {
+            if (items.length === 0) {
+                throw new Error('No files dropped');
             }
+            return collectEntryFiles(entries, skipDefaultDirectory);
+        });
+    };
 
-            return processedContent;
-        }, [settings.removeComments, settings.minifyCode]);
-
-        // API interaction functions
-        const fetchRepoContents = async (owner, repo, branch = null, basePath = '') => {
-            try {
-                const headers: Record<string, string> = {
-                    'Accept': 'application/vnd.github.v3+json'
-                };
-
-                if (formState.token) {
-                    headers.Authorization = `token ${formState.token}`;
-                }
-
-                abortControllerRef.current = new AbortController();
-                const { signal } = abortControllerRef.current;
-
-                // Fetch repository metadata
-                const repoResponse = await fetch(
-                    `https://api.github.com/repos/${owner}/${repo}`,
-                    { headers, signal }
-                );
-
-                if (!repoResponse.ok) {
-                    throw new Error(repoResponse.status === 404 ? 'Repository not found' : 'Failed to fetch repository');
-                }
-
-                const repoData = await repoResponse.json();
-                const targetBranch = branch || repoData.default_branch;
-
-                // Fetch the tree
-                const treeResponse = await fetch(
-                    `https://api.github.com/repos/${owner}/${repo}/git/trees/${targetBranch}?recursive=1`,
-                    { headers, signal }
-                );
-
-                if (!treeResponse.ok) {
-                    throw new Error('Failed to fetch repository contents');
-                }
+    const handlePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+        // Files of a picked folder (`webkitdirectory`) have their path in `webkitRelativePath`
+        const files = Array.from(e.target.files ?? []).map(file => ({ path: file.webkitRelativePath || file.name, file }));
+        // Allow picking the same file again
+        e.target.value = '';
+        if (files.length > 0) processLocalFiles(async () => files);
+    };
 
-                const treeData = await treeResponse.json();
+    const openDirectory = (handle: FileSystemDirectoryHandle) => {
+        processLocalFiles(async () => {
+            const files = await collectHandleFiles(handle, skipDefaultDirectory);
+            setDirectory({ handle, files });
+            return files;
+        });
+    };
 
-                // Filter and process files
-                const files = treeData.tree
-                    .filter(item => item.type === 'blob')
-                    .filter(item => !basePath || item.path.startsWith(basePath))
-                    .filter(item => !shouldSkipEntry(item.path))
-                    .filter(item => isAllowedFileType(item.path));
+    // Without the File System Access API (Firefox, Safari, mobile), fall back to a `webkitdirectory` input
+    const handleChooseFolder = async () => {
+        if (!window.showDirectoryPicker) {
+            folderInputRef.current?.click();
+            return;
+        }
 
-                setFormState(prev => ({
-                    ...prev,
-                    progress: { processed: 0, total: files.length }
-                }));
+        try {
+            const handle = await window.showDirectoryPicker({ id: 'sac', mode: 'read' });
+            saveDirectory(handle);
+            openDirectory(handle);
+        } catch (error) {
+            // Closing the picker rejects with an AbortError
+            if (error instanceof DOMException && error.name === 'AbortError') return;
+            console.error('Error picking folder:', error);
+            setError(error instanceof Error ? error.message : 'Error picking folder');
+        }
+    };
 
-                let combinedContent = '';
-                let processedFiles = 0;
-                let totalSize = 0;
-                let currentTokens = 0;
+    const handleReopenFolder = async (handle: FileSystemDirectoryHandle) => {
+        try {
+            if (!await ensureReadPermission(handle)) {
+                setError(`Permission to read ${handle.name} was denied`);
+                return;
+            }
+            openDirectory(handle);
+        } catch (error) {
+            // The folder was moved or deleted since it was picked
+            console.error('Error reopening folder:', error);
+            setError(`Could not open ${handle.name}, choose it again`);
+        }
+    };
 
-                for (const file of files) {
-                    if (signal.aborted) {
-                        throw new Error('Operation cancelled');
-                    }
+    // Read the open folder again, from disk only for files that changed, and regenerate the context.
+    // Files included or excluded by hand stay so, new files are included unless they'd be skipped.
+    const handleRefresh = async () => {
+        if (!directory || !packedInput) return;
 
-                    try {
-                        const contentResponse = await fetch(
-                            `https://api.github.com/repos/${owner}/${repo}/contents/${file.path}?ref=${targetBranch}`,
-                            { headers, signal }
-                        );
+        setError(null);
+        setProcessing(true);
+        setGenerating(true);
+        const signal = startJob();
 
-                        if (!contentResponse.ok) continue;
-
-                        const contentData = await contentResponse.json();
-                        let content = atob(contentData.content);
-
-                        // Apply processing based on settings
-                        content = processFileContent(content);
-
-                        // Check token limit
-                        const contentTokens = Math.ceil(content.length / 4);
-                        if (settings.tokenLimit > 0 && currentTokens + contentTokens > settings.tokenLimit) {
-                            console.warn(`Token limit (${settings.tokenLimit}) reached`);
-                            break;
-                        }
-
-                        combinedContent += `\n\n// File: ${file.path}\n${content}`;
-                        processedFiles++;
-                        totalSize += content.length;
-                        currentTokens += contentTokens;
-
-                        setFormState(prev => ({
-                            ...prev,
-                            progress: { processed: processedFiles, total: files.length }
-                        }));
-
-                        // Add small delay to avoid rate limits
-                        await new Promise(resolve => setTimeout(resolve, 50));
-
-                    } catch (error) {
-                        if (error instanceof Error) {
-                            if (error.message === 'Operation cancelled') throw error;
-                            console.warn(`Error processing ${file.path}:`, error);
-                        } else {
-                            // Handle unknown error types
-                            console.warn(`Unknown error processing ${file.path}:`, error);
-                        }
-                    }
-                }
+        try {
+            const files = await collectHandleFiles(directory.handle, skipDefaultDirectory, directory.files);
+
+            const previous = packedInput.selected;
+            const known = new Set(directory.files.map(file => file.path));
+            const candidates = await listInWorker(files, settings, { signal });
+            const selected = new Set(candidates
+                .filter(({ path, skipReason }) => (known.has(path) ? previous.has(path) : !skipReason))
+                .map(({ path }) => path));
+
+            const packed = await packSelection({ files }, selected, signal);
+            applyResult(packed.result, packed.input);
+            setDirectory({ ...directory, files });
+        } catch (error) {
+            if (!isCancelled(error)) {
+                console.error('Error refreshing folder:', error);
+                setError(getErrorMessage(error));
+            }
+        } finally {
+            endJob();
+            setGenerating(false);
+            setProcessing(false);
+        }
+    };
 
-                return {
-                    content: combinedContent.trim(),
-                    fileCount: processedFiles,
-                    totalSize,
-                    tokenCount: currentTokens
-                };
+    const RepositoryInput: React.FC<RepositoryInputProps> = ({
+        onProcess, onListed, onError, startJob, onProgress, onRateLimit, rateLimit, resumeUrl,
+        processing, settings, updateSettings, profiles, onAttachProfile
+    }) => {
+        // Form state management
+        const [formState, setFormState] = useState({
+            url: settings.githubUrl || '',
+            // One token per provider, the field shows the one of the URL's provider
+            tokens: Object.fromEntries(PROVIDERS.map(({ id, tokenSetting }) => [id, settings[tokenSetting]])) as Record<ProviderId, string>,
+            help: false,
+            error: ''
+        });
 
-            } catch (error) {
-                throw error;
+        // Provider of the URL being typed, GitHub until another one is recognized
+        const provider = detectProvider(formState.url, settings) ?? githubProvider;
+        const ProviderIcon = provider.id === 'github' ? Github : provider.id === 'gitlab' ? Gitlab : GitBranch;
+        const providerOrigin = (() => {
+            try {
+                return new URL(formState.url).origin;
+            } catch {
+                return `https://${provider.hosts(settings)[0]}`;
             }
-        };
+        })();
 
         // Input handlers
         const handleUrlChange = useCallback((e) => {
@@ -626,9 +970,9 @@ const SAC = () => {
             e.preventDefault();
             setFormState(prev => ({
                 ...prev,
-                token: e.target.value
+                tokens: { ...prev.tokens, [provider.id]: e.target.value }
             }));
-        }, []);
+        }, [provider.id]);
 
         const toggleHelp = useCallback((e) => {
             e.preventDefault();
@@ -638,88 +982,72 @@ const SAC = () => {
             }));
         }, []);
 
-        // Validation
-        const validateGitHubUrl = useCallback((url) => {
-            const githubRegex = /^https:\/\/github\.com\/[\w-]+\/[\w.-]+(?:\/tree\/[^/]+(?:\/[\w.-]+)*)?$/;
-            return githubRegex.test(url);
-        }, []);
-
-        const extractRepoInfo = useCallback((url) => {
-            const match = url.match(/github\.com\/([\w-]+)\/([\w.-]+)(?:\/tree\/([^/]+)(?:\/(.+))?)?/);
-            return match ? {
-                owner: match[1],
-                repo: match[2],
-                branch: match[3] || null,
-                path: match[4] || ''
-            } : null;
-        }, []);
-
         // Form submission
         const handleSubmit = useCallback(async (e) => {
             e.preventDefault();
 
             setFormState(prev => ({
                 ...prev,
-                error: '',
-                progress: { processed: 0, total: 0 }
+                error: ''
             }));
 
-            if (!validateGitHubUrl(formState.url)) {
+            if (!detectProvider(formState.url, settings)) {
                 setFormState(prev => ({
                     ...prev,
-                    error: 'Please enter a valid GitHub repository URL'
+                    error: 'Please enter a GitHub, GitLab, Bitbucket or Gitea repository URL. Self-hosted instances can be added in Advanced Settings.'
                 }));
                 return;
             }
 
-            const repoInfo = extractRepoInfo(formState.url);
+            const repoInfo = parseRepoUrl(formState.url, settings);
             if (!repoInfo) {
                 setFormState(prev => ({
                     ...prev,
-                    error: 'Invalid GitHub repository URL format'
+                    error: `Invalid ${provider.label} repository URL format`
                 }));
                 return;
             }
 
+            // Settings are passed in, as a profile attached to the repository applies before the state updates
+            const createRepoSource = (repoInfo: RepoInfo, settings: AdvancedSettings) => {
+                // Progress and the Stop button are shown by the loading state while this form is hidden
+                const signal = startJob();
+                const token = formState.tokens[repoInfo.provider];
+                return { source: createRepositorySource(repoInfo, settings, { token, signal, onRateLimit }), signal };
+            };
+
+            const listRepoContents = async (repoInfo: RepoInfo, settings: AdvancedSettings) => {
+                const { source, signal } = createRepoSource(repoInfo, settings);
+                const candidates = await listCandidates(source, settings, { signal });
+                return { candidates, local: source.local, header: source.header };
+            };
+
+            const fetchRepoContents = async (repoInfo: RepoInfo, settings: AdvancedSettings) => {
+                const { source, signal } = createRepoSource(repoInfo, settings);
+                const candidates = await listCandidates(source, settings, { signal });
+
+                const { header } = source;
+                return { result: await packCandidates(candidates, settings, { signal, onProgress, header }), input: { candidates, header, settings } };
+            };
+
+            const runSettings = onAttachProfile(findProfileForRepo(profiles, formState.url, repoInfo));
+
             try {
                 onProcess(true);
-                const result = await fetchRepoContents(
-                    repoInfo.owner,
-                    repoInfo.repo,
-                    repoInfo.branch,
-                    repoInfo.path
-                );
-                onProcess(false, result);
-            } catch (error) {
-                if (error instanceof Error) {
-                    if (error.message !== 'Operation cancelled by user') {
-                        setFormState(prev => ({
-                            ...prev,
-                            error: error.message
-                        }));
-                    }
+                if (runSettings.reviewFiles) {
+                    const pending = await listRepoContents(repoInfo, runSettings);
+                    onProcess(false);
+                    onListed(pending);
                 } else {
-                    setFormState(prev => ({
-                        ...prev,
-                        error: 'An unknown error occurred'
-                    }));
+                    const { result, input } = await fetchRepoContents(repoInfo, runSettings);
+                    onProcess(false, result, input);
                 }
+            } catch (error) {
+                // The form is unmounted while processing, so errors are shown by the parent
                 onProcess(false);
+                onError(error, formState.url);
             }
-        }, [formState.url, formState.token, onProcess, validateGitHubUrl, extractRepoInfo, fetchRepoContents]);
-
-        // Cancel operation
-        const handleCancel = useCallback(() => {
-            if (abortControllerRef.current) {
-                abortControllerRef.current.abort();
-                abortControllerRef.current = null;
-                onProcess(false);
-                setFormState(prev => ({
-                    ...prev,
-                    progress: { processed: 0, total: 0 }
-                }));
-            }
-        }, [onProcess]);
+        }, [formState.url, formState.tokens, settings, provider.label, profiles, onAttachProfile, onProcess, onListed, onError, startJob, onRateLimit, onProgress]);
 
         // Component render
         return (
@@ -727,12 +1055,13 @@ const SAC = () => {
                 {formState.help && (
                     <div className="flex items-start gap-2 my-3">
                         <div className="flex-1 p-4 bg-purple-100 rounded-xl">
-                            <h4 className="text-lg text-purple-600">GitHub Personal Access Token</h4>
+                            <h4 className="text-lg text-purple-600">{provider.label} Access Token</h4>
                             <p className="text-sm text-purple-900 mt-1">
-                                Optional token for private repositories and/or increased API rate limits
+                                Optional token for private repositories and/or increased API rate limits. Each provider keeps its own token.
+                                {provider.id === 'bitbucket' && ' Enter app passwords as username:app_password.'}
                             </p>
                             <a
-                                href="https://github.com/settings/tokens/new?description=sac&scopes=repo"
+                                href={provider.tokenUrl(providerOrigin)}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-purple-700 bg-white mt-5 hover:bg-purple-200 rounded-lg transition-colors"
@@ -749,7 +1078,7 @@ const SAC = () => {
                         <div className="flex gap-2">
                             <div className="relative flex-1">
                                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                                    <Github className="h-5 w-5 text-gray-400" />
+                                    <ProviderIcon className="h-5 w-5 text-gray-400" />
                                 </div>
                                 <input
                                     type="text"
@@ -764,26 +1093,27 @@ const SAC = () => {
                                     }}
                                     disabled={processing}
                                     className="block w-full pl-10 pr-12 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                                    placeholder="Enter GitHub repository URL"
+                                    placeholder="Enter a GitHub, GitLab, Bitbucket or Gitea repository URL"
                                 />
                             </div>
 
                             <div className="relative flex-1 flex">
                                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                                    <Github className="h-5 w-5 text-gray-400" />
+                                    <ProviderIcon className="h-5 w-5 text-gray-400" />
                                 </div>
                                 <input
-                                    type="text"
-                                    value={formState.token}
+                                    type="password"
+                                    autoComplete="off"
+                                    value={formState.tokens[provider.id]}
                                     onChange={handleTokenChange}
                                     onBlur={(e) => {
                                         updateSettings({
-                                            githubToken: e.target.value
+                                            [provider.tokenSetting]: e.target.value
                                         });
                                     }}
                                     disabled={processing}
                                     className="block w-full pl-10 pr-12 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                                    placeholder="GitHub Personal Access Token (optional)"
+                                    placeholder={`${provider.label} Access Token (optional)`}
                                 />
                                 <button
                                     type="button"
@@ -794,25 +1124,13 @@ const SAC = () => {
                                 </button>
                             </div>
 
-                            {processing ? (
-                                <button
-                                    type="button"
-                                    onClick={handleCancel}
-                                    className="px-6 py-3 rounded-xl font-medium bg-red-600 text-white hover:bg-red-700 transition-colors"
-                                >
-                                    <div className="flex items-center gap-2">
-                                        <X className="w-5 h-5" />
-                                        <span>Stop</span>
-                                    </div>
-                                </button>
-                            ) : (
-                                <button
-                                    type="submit"
-                                    className="px-6 py-3 rounded-xl font-medium transition-colors bg-blue-600 text-white hover:bg-blue-700"
-                                >
-                                    Process
-                                </button>
-                            )}
+                            <button
+                                type="submit"
+                                disabled={processing}
+                                className="px-6 py-3 rounded-xl font-medium transition-colors bg-blue-600 text-white hover:bg-blue-700"
+                            >
+                                {resumeUrl === formState.url ? 'Resume' : 'Process'}
+                            </button>
                         </div>
                     </div>
 
@@ -821,10 +1139,9 @@ const SAC = () => {
                             {formState.error}
                         </div>
                     )}
-                    {processing && formState.progress.total > 0 && (
-                        <div className="flex items-center gap-2 text-sm text-gray-600">
-                            <Loader className="w-4 h-4 animate-spin" />
-                            <span>Processing files: {formState.progress.processed}/{formState.progress.total}</span>
+                    {rateLimit && (
+                        <div className={`text-sm ${rateLimit.remaining === 0 ? 'text-amber-600' : 'text-gray-500'}`}>
+                            {formatRateLimit(rateLimit)}
                         </div>
                     )}
                 </form>
@@ -839,7 +1156,7 @@ const SAC = () => {
 
         // Update token count when content changes
         useEffect(() => {
-            const count = estimateTokenCount(editableContent);
+            const count = tokenizer.count(editableContent);
             setCurrentTokens(count);
             setContent(editableContent);
         }, [editableContent]);
@@ -883,11 +1200,38 @@ const SAC = () => {
                                 }`}>
                                 {tokenMessage.text}
                             </span>
+                            {rerendering ? (
+                                <span className="text-sm text-gray-400">Updating...</span>
+                            ) : tokenDelta !== null && (
+                                <span
+                                    className={`text-sm font-medium ${tokenDelta > 0 ? 'text-amber-600' : 'text-green-600'}`}
+                                    title="Tokens saved or added by the last settings change"
+                                >
+                                    {tokenDelta > 0 ? '+' : tokenDelta < 0 ? '-' : '±'}{Math.abs(tokenDelta).toLocaleString()} tokens
+                                </span>
+                            )}
                             <div className="flex gap-2">
+                                {directory && (
+                                    <button
+                                        onClick={handleRefresh}
+                                        className="p-1.5 text-gray-500 hover:text-blue-600 transition-colors"
+                                        aria-label={`Refresh from ${directory.handle.name}`}
+                                        title={`Re-read changed files in ${directory.handle.name} and regenerate`}
+                                    >
+                                        <RefreshCw className="w-4 h-4" />
+                                    </button>
+                                )}
                                 <button
                                     onClick={() => {
                                         setEditableContent('');
                                         setContent('');
+                                        setParts([]);
+                                        setBudgetReport(null);
+                                        setRedactions([]);
+                                        setPackResult(null);
+                                        setPackedInput(null);
+                                        setTokenDelta(null);
+                                        setDirectory(null);
                                         setFileCount(0);
                                         setTotalSize(0);
                                         setCurrentTokens(0);
@@ -899,10 +1243,10 @@ const SAC = () => {
                                     <Trash2 className="w-4 h-4" />
                                 </button>
                                 <button
-                                    onClick={copyToClipboard}
+                                    onClick={() => copyToClipboard(content, 'all')}
                                     className="flex items-center gap-1.5 text-sm px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
                                 >
-                                    {copied ? (
+                                    {copied === 'all' ? (
                                         <>
                                             <Check className="w-4 h-4" />
                                             <span>Copied!</span>
@@ -917,6 +1261,55 @@ const SAC = () => {
                             </div>
                         </div>
                     </div>
+                    {parts.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-gray-200 bg-blue-50">
+                            <span className="text-sm text-gray-600 mr-2">
+                                Split into {parts.length} parts, paste them in order:
+                            </span>
+                            {parts.map(part => (
+                                <button
+                                    key={part.index}
+                                    onClick={() => copyToClipboard(part.content, String(part.index))}
+                                    className="flex items-center gap-1.5 text-sm px-2.5 py-1 bg-white border border-blue-200 hover:border-blue-400 text-blue-700 rounded-md transition-colors"
+                                    title={`${part.tokens.toLocaleString()} tokens`}
+                                >
+                                    {copied === String(part.index) ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                                    <span>Part {part.index} of {part.total}</span>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {redactions.length > 0 && (
+                        <details open className="px-4 py-3 border-b border-gray-200 bg-red-50 text-sm text-red-800">
+                            <summary className="cursor-pointer">
+                                {redactions.length} {redactions.length === 1 ? 'secret was' : 'secrets were'} redacted, check them before copying
+                            </summary>
+                            <ul className="mt-2 space-y-1 font-mono text-xs max-h-48 overflow-y-auto">
+                                {redactions.map(({ path, line, type }, index) => (
+                                    // A line can hold several secrets of the same type
+                                    <li key={`${path}:${line}:${type}:${index}`}>
+                                        {path}:{line} <span className="text-red-600">{SECRET_DETECTORS.find(detector => detector.type === type)?.label ?? type}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
+                    {budgetReport && (
+                        <details className="px-4 py-3 border-b border-gray-200 bg-amber-50 text-sm text-amber-800">
+                            <summary className="cursor-pointer">
+                                Token limit ({tokenLimit.toLocaleString()}) reached: {budgetReport.leftOut.length} files left out
+                                {budgetReport.shortened.length > 0 && `, ${budgetReport.shortened.length} shortened`}
+                            </summary>
+                            <ul className="mt-2 space-y-1 font-mono text-xs max-h-48 overflow-y-auto">
+                                {budgetReport.shortened.map(({ path, omittedLines }) => (
+                                    <li key={path}>{path} <span className="text-amber-600">({omittedLines} lines omitted)</span></li>
+                                ))}
+                                {budgetReport.leftOut.map(path => (
+                                    <li key={path} className="text-amber-600">{path}</li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
                     <div className="relative">
                         <textarea
                             ref={textareaRef}
@@ -943,25 +1336,53 @@ const SAC = () => {
         updateSettings({ tokenLimit: newLimit });
     };
 
-    const renderAdvancedSettings = () => (
-        <div className="bg-gray-50 border border-gray-200 rounded-xl p-6 space-y-6 mt-4">
-            <div className="flex items-center justify-between">
-                <h3 className="text-lg font-semibold">Advanced Settings</h3>
-                <div className="flex gap-2">
-                    <button
-                        onClick={handleResetSettings}
-                        className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 transition-colors"
-                    >
-                        Reset to Default
-                    </button>
-                    <button
-                        onClick={() => setShowAdvanced(!showAdvanced)}
-                        className="text-gray-500 hover:text-gray-700"
-                    >
-                        {showAdvanced ? <ChevronUp /> : <ChevronDown />}
-                    </button>
-                </div>
-            </div>
+    const moveRule = (index: number, offset: number) => {
+        const rules: PriorityRuleId[] = [...settings.priorityRules];
+        [rules[index], rules[index + offset]] = [rules[index + offset], rules[index]];
+        updateSettings({ priorityRules: rules });
+    };
+
+    // Unlock the saved encrypted tokens, or set the passphrase new tokens are encrypted with
+    const handlePassphrase = async () => {
+        if (!passphraseInput) return;
+        setPassphraseError(null);
+        try {
+            if (tokensLocked) {
+                await unlock(passphraseInput);
+            } else {
+                await setPassphrase(passphraseInput);
+            }
+            setPassphraseInput('');
+        } catch (error) {
+            setPassphraseError(getErrorMessage(error));
+        }
+    };
+
+    const handleClearCache = async () => {
+        try {
+            await clearBlobCache();
+            setCacheUsage({ count: 0, size: 0 });
+        } catch (error) {
+            console.error('Error clearing the cache:', error);
+        }
+    };
+
+    const handleCheckToken = async () => {
+        setTokenCheck({ checking: true });
+        // The GitHub Enterprise API for a token used with it, github.com otherwise
+        const repoInfo = parseRepoUrl(settings.githubUrl, settings);
+        const api = repoInfo?.provider === 'github' ? githubProvider.apiUrl(repoInfo, settings) : undefined;
+        try {
+            setTokenCheck({ info: await fetchGithubTokenInfo(settings.githubToken, api) });
+        } catch (error) {
+            setTokenCheck({ error: getErrorMessage(error) });
+        }
+    };
+
+    // Settings that change the output of the same files, also shown next to the output to re-render it
+    // (see `rerenderOutput`). Where files come from and the review step only apply to the next fetch or drop.
+    const renderOutputSettings = (live = false) => (
+        <>
             {/* Token Limit */}
             <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -982,6 +1403,148 @@ const SAC = () => {
                 </div>
             </div>
 
+            {/* Part Size */}
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Part Size
+                </label>
+                <div className="space-y-2">
+                    <input
+                        type="number"
+                        value={settings.partSize}
+                        onChange={(e) => updateSettings({ partSize: Math.max(parseInt(e.target.value) || 0, 0) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                        placeholder="Tokens per part (0 to keep a single output)"
+                        min="0"
+                    />
+                    <p className="text-sm text-gray-500">
+                        Split the output into numbered parts of at most this many tokens, each with its own copy button. Set to 0 to disable.
+                    </p>
+                </div>
+            </div>
+
+            {/* Tokenizer */}
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tokenizer
+                </label>
+                <select
+                    value={settings.tokenizer}
+                    onChange={(e) => updateSettings({
+                        tokenizer: e.target.value as TokenizerId
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+                >
+                    {TOKENIZERS.map(({ id, label }) => (
+                        <option key={id} value={id}>{label}</option>
+                    ))}
+                </select>
+                <p className="mt-1 text-sm text-gray-500">
+                    Used for the token counter and the token limit. Runs entirely in your browser.
+                </p>
+            </div>
+
+            {/* File Priority */}
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                    File Priority
+                </label>
+                <ul className="space-y-1">
+                    {[
+                        ...settings.priorityRules,
+                        ...PRIORITY_RULES.map(rule => rule.id).filter(id => !settings.priorityRules.includes(id))
+                    ].map((id) => {
+                        const enabled = settings.priorityRules.includes(id);
+                        const index = settings.priorityRules.indexOf(id);
+                        return (
+                            <li key={id} className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={enabled}
+                                    onChange={() => updateSettings({
+                                        priorityRules: enabled
+                                            ? settings.priorityRules.filter(rule => rule !== id)
+                                            : [...settings.priorityRules, id]
+                                    })}
+                                    className="rounded border-gray-300"
+                                />
+                                <span className={`flex-1 text-sm ${enabled ? 'text-gray-700' : 'text-gray-400'}`}>
+                                    {PRIORITY_RULES.find(rule => rule.id === id)?.label}
+                                </span>
+                                {enabled && (
+                                    <>
+                                        <button
+                                            onClick={() => moveRule(index, -1)}
+                                            disabled={index === 0}
+                                            className="text-gray-500 hover:text-gray-700 disabled:text-gray-300"
+                                            aria-label="Move up"
+                                        >
+                                            <ChevronUp className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => moveRule(index, 1)}
+                                            disabled={index === settings.priorityRules.length - 1}
+                                            className="text-gray-500 hover:text-gray-700 disabled:text-gray-300"
+                                            aria-label="Move down"
+                                        >
+                                            <ChevronDown className="w-4 h-4" />
+                                        </button>
+                                    </>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+                <p className="mt-1 text-sm text-gray-500">
+                    When the token limit is hit, files are kept in this order, smaller files first. Files that don&apos;t fit keep their beginning and end.
+                </p>
+            </div>
+
+            {/* Output Format */}
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Output Format
+                </label>
+                <select
+                    value={settings.outputFormat}
+                    onChange={(e) => updateSettings({
+                        outputFormat: e.target.value as OutputFormat
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+                >
+                    {OUTPUT_FORMATS.map(({ id, label }) => (
+                        <option key={id} value={id}>{label}</option>
+                    ))}
+                </select>
+                <p className="mt-1 text-sm text-gray-500">
+                    How each file is wrapped in the generated context
+                </p>
+                <label className="mt-3 flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={settings.includeOverview}
+                        onChange={(e) => updateSettings({
+                            includeOverview: e.target.checked
+                        })}
+                        className="rounded border-gray-300"
+                    />
+                    <span>Start with a project overview (directory tree with sizes and tokens, skipped files)</span>
+                </label>
+                {!live && (
+                    <label className="mt-2 flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={settings.includeDiff}
+                            onChange={(e) => updateSettings({
+                                includeDiff: e.target.checked
+                            })}
+                            className="rounded border-gray-300"
+                        />
+                        <span>For GitHub pull request, commit and compare URLs, add the diff and the base version of each changed file</span>
+                    </label>
+                )}
+            </div>
+
             {/* Code Processing Options */}
             <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1010,6 +1573,57 @@ const SAC = () => {
                         />
                         <span>Minify Code</span>
                     </label>
+                    {settings.minifyCode && (
+                        <select
+                            value={settings.minifyLevel}
+                            onChange={(e) => updateSettings({
+                                minifyLevel: e.target.value as MinifyLevel
+                            })}
+                            className="ml-6 px-3 py-1.5 border border-gray-300 rounded-md bg-white text-sm"
+                        >
+                            {MINIFY_LEVELS.map(({ id, label }) => (
+                                <option key={id} value={id}>{label}</option>
+                            ))}
+                        </select>
+                    )}
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={settings.useGitignore}
+                            onChange={(e) => updateSettings({
+                                useGitignore: e.target.checked
+                            })}
+                            className="rounded border-gray-300"
+                        />
+                        <span>Respect .gitignore</span>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={settings.redactSecrets}
+                            onChange={(e) => updateSettings({
+                                redactSecrets: e.target.checked
+                            })}
+                            className="rounded border-gray-300"
+                        />
+                        <span>Redact secrets (API keys, tokens, private keys)</span>
+                    </label>
+                    {!live && (
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={settings.reviewFiles}
+                                onChange={(e) => updateSettings({
+                                    reviewFiles: e.target.checked
+                                })}
+                                className="rounded border-gray-300"
+                            />
+                            <span>Review files before generating</span>
+                        </label>
+                    )}
+                    <p className="text-sm text-gray-500">
+                        A .sacignore file (same syntax) is always applied for context-specific exclusions
+                    </p>
                 </div>
             </div>
 
@@ -1088,6 +1702,271 @@ const SAC = () => {
                     One file extension per line (e.g., .js, .py, .rb)
                 </p>
             </div>
+        </>
+    );
+
+    const renderAdvancedSettings = () => (
+        <div className="bg-gray-50 border border-gray-200 rounded-xl p-6 space-y-6 mt-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">Advanced Settings</h3>
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleResetSettings}
+                        className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                    >
+                        Reset to Default
+                    </button>
+                    <button
+                        onClick={() => setShowAdvanced(!showAdvanced)}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                        {showAdvanced ? <ChevronUp /> : <ChevronDown />}
+                    </button>
+                </div>
+            </div>
+
+            {/* Profiles */}
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Profile
+                </label>
+                <div className="flex flex-wrap gap-2">
+                    <select
+                        value={activeProfileId ?? ''}
+                        onChange={(e) => handleSelectProfile(e.target.value)}
+                        className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-md bg-white"
+                    >
+                        <option value="">No profile</option>
+                        {profiles.map(({ id, name }) => (
+                            <option key={id} value={id}>
+                                {name}{id === activeProfileId && profileModified ? ' (modified)' : ''}
+                            </option>
+                        ))}
+                    </select>
+                    {activeProfile && (
+                        <>
+                            <button
+                                onClick={() => saveProfile({ ...activeProfile, settings: toProfileSettings(settings) })}
+                                disabled={!profileModified}
+                                className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-100 disabled:text-gray-400 disabled:hover:bg-white"
+                            >
+                                Save
+                            </button>
+                            <button
+                                onClick={() => handleExportProfile(activeProfile)}
+                                className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-100"
+                            >
+                                Export
+                            </button>
+                            <button
+                                onClick={() => deleteProfile(activeProfile.id)}
+                                className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white text-red-600 hover:bg-red-50"
+                            >
+                                Delete
+                            </button>
+                        </>
+                    )}
+                    <button
+                        onClick={() => profileInputRef.current?.click()}
+                        className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-100"
+                    >
+                        Import
+                    </button>
+                    <input
+                        ref={profileInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={handleImportProfile}
+                    />
+                </div>
+                <div className="flex gap-2 mt-2">
+                    <input
+                        type="text"
+                        value={newProfileName}
+                        onChange={(e) => setNewProfileName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleCreateProfile()}
+                        placeholder="New profile name, e.g. Python services"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                    <button
+                        onClick={handleCreateProfile}
+                        disabled={!newProfileName.trim()}
+                        className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+                    >
+                        Save as new
+                    </button>
+                </div>
+                {activeProfile && (
+                    <input
+                        // Remounted per profile, saved when leaving the field
+                        key={activeProfile.id}
+                        type="text"
+                        defaultValue={activeProfile.repos.join(', ')}
+                        onBlur={(e) => saveProfile({
+                            ...activeProfile,
+                            repos: e.target.value.split(',').map(repo => repo.trim()).filter(Boolean)
+                        })}
+                        placeholder="Attach to repositories: owner/repo, org/*, repo-name, https://gitlab.example.com/team/"
+                        className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                )}
+                <p className="mt-1 text-sm text-gray-500">
+                    Profiles hold every setting except access tokens, and can be shared as JSON files. A profile attached to a repository is switched to when that repository is fetched.
+                </p>
+            </div>
+
+            {renderOutputSettings()}
+
+            {/* Self-hosted Instances */}
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Self-hosted Instances
+                </label>
+                <div className="space-y-2">
+                    {([
+                        ['githubApiUrl', 'GitHub Enterprise API URL (e.g. https://github.example.com/api/v3)'],
+                        ['gitlabUrl', 'GitLab URL (e.g. https://gitlab.example.com)'],
+                        ['giteaUrl', 'Gitea URL (e.g. https://gitea.example.com)']
+                    ] as const).map(([key, placeholder]) => (
+                        <input
+                            key={key}
+                            type="url"
+                            value={settings[key]}
+                            onChange={(e) => updateSettings({ [key]: e.target.value.trim() })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                            placeholder={placeholder}
+                        />
+                    ))}
+                </div>
+                <p className="mt-1 text-sm text-gray-500">
+                    Repository URLs on these hosts are fetched from your instance. github.com, gitlab.com, bitbucket.org, gitea.com and codeberg.org work out of the box.
+                </p>
+            </div>
+
+            {/* Access Tokens */}
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Access Token Storage
+                </label>
+                <select
+                    value={settings.tokenStorage}
+                    onChange={(e) => updateSettings({ tokenStorage: e.target.value as TokenStorageMode })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+                >
+                    {TOKEN_STORAGE_MODES.map(({ id, label }) => (
+                        <option key={id} value={id}>{label}</option>
+                    ))}
+                </select>
+                <p className="mt-1 text-sm text-gray-500">
+                    {TOKEN_STORAGE_MODES.find(({ id }) => id === settings.tokenStorage)?.description}. Tokens are never saved with the other settings.
+                </p>
+
+                {settings.tokenStorage === 'encrypted' && (tokensLocked || !hasPassphrase) && (
+                    <div className="mt-2">
+                        <div className="flex gap-2">
+                            <input
+                                type="password"
+                                value={passphraseInput}
+                                onChange={(e) => setPassphraseInput(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handlePassphrase()}
+                                placeholder={tokensLocked ? 'Passphrase of your saved tokens' : 'Passphrase to encrypt your tokens with'}
+                                autoComplete={tokensLocked ? 'current-password' : 'new-password'}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+                            />
+                            <button
+                                onClick={handlePassphrase}
+                                disabled={!passphraseInput}
+                                className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+                            >
+                                {tokensLocked ? 'Unlock' : 'Set passphrase'}
+                            </button>
+                        </div>
+                        <p className={`mt-1 text-sm ${passphraseError ? 'text-red-600' : 'text-amber-600'}`}>
+                            {passphraseError ?? (tokensLocked
+                                ? 'Your saved tokens are encrypted, enter the passphrase to use them.'
+                                : 'Tokens are only kept in memory until a passphrase is set.')}
+                        </p>
+                    </div>
+                )}
+
+                {hasTokens(pickTokens(settings)) && (
+                    <ul className="mt-3 space-y-2">
+                        {PROVIDERS.filter(({ tokenSetting }) => settings[tokenSetting]).map(({ id, label, tokenSetting }) => (
+                            <li key={id} className="text-sm">
+                                <div className="flex items-center gap-2">
+                                    <span className="flex-1 text-gray-700">
+                                        {label}: <code>{settings[tokenSetting].slice(0, 4)}…{settings[tokenSetting].slice(-4)}</code>
+                                    </span>
+                                    {id === 'github' && (
+                                        <button
+                                            onClick={handleCheckToken}
+                                            disabled={tokenCheck?.checking}
+                                            className="px-2 py-1 border border-gray-300 rounded-md bg-white hover:bg-gray-100 disabled:text-gray-400"
+                                        >
+                                            {tokenCheck?.checking ? 'Checking...' : 'Check'}
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => forgetTokens([tokenSetting])}
+                                        className="px-2 py-1 border border-gray-300 rounded-md bg-white text-red-600 hover:bg-red-50"
+                                    >
+                                        Forget
+                                    </button>
+                                </div>
+                                {id === 'github' && tokenCheck?.error && (
+                                    <p className="mt-1 text-red-600">{tokenCheck.error}</p>
+                                )}
+                                {id === 'github' && tokenCheck?.info && (
+                                    <p className="mt-1 text-gray-500">
+                                        Signed in as {tokenCheck.info.login}
+                                        {' • '}
+                                        {tokenCheck.info.scopes === null
+                                            ? 'fine-grained token, permissions are listed on GitHub'
+                                            : `scopes: ${tokenCheck.info.scopes.join(', ') || 'none (public data only)'}`}
+                                        {' • '}
+                                        {tokenCheck.info.expiresAt
+                                            ? `expires ${tokenCheck.info.expiresAt.toLocaleString()}`
+                                            : 'no expiration date reported'}
+                                    </p>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {(hasTokens(pickTokens(settings)) || tokensLocked) && (
+                    <button
+                        onClick={() => forgetTokens()}
+                        className="mt-2 text-sm text-red-600 hover:underline"
+                    >
+                        Forget all tokens
+                    </button>
+                )}
+            </div>
+
+            {/* Repository Cache */}
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Repository Cache
+                </label>
+                <div className="flex items-center gap-2">
+                    <span className="flex-1 text-sm text-gray-700">
+                        {cacheUsage
+                            ? `${cacheUsage.count.toLocaleString()} files, ${(cacheUsage.size / 1024 / 1024).toFixed(1)}MB of ${BLOB_CACHE_LIMIT / 1024 / 1024}MB`
+                            : 'Not available in this browser'}
+                    </span>
+                    <button
+                        onClick={handleClearCache}
+                        disabled={!cacheUsage?.count}
+                        className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-100 disabled:text-gray-400 disabled:hover:bg-white"
+                    >
+                        Clear cache
+                    </button>
+                </div>
+                <p className="mt-1 text-sm text-gray-500">
+                    Files fetched from GitHub, GitLab and Gitea are kept in this browser by content hash, so files that didn&apos;t change since an earlier fetch aren&apos;t downloaded again. The least recently used files are removed above the limit.
+                </p>
+            </div>
         </div>
     );
 
@@ -1144,15 +2023,44 @@ const SAC = () => {
                                 <Loader className="w-8 h-8 text-blue-600 animate-spin" />
                             </div>
                             <span className="text-xl mb-2">Processing your files...</span>
-                            {fileCount > 0 && (
+                            {progress && progress.total > 0 && (
                                 <span className="text-sm text-gray-500">
-                                    Processed {fileCount} files ({(totalSize / 1024).toFixed(1)}KB)
+                                    Processed {progress.processed}/{progress.total} files • {((progress.bytes ?? 0) / 1024).toFixed(1)}KB • {(progress.tokens ?? 0).toLocaleString()} tokens
                                 </span>
                             )}
+                            {rateLimit && (
+                                <span className="text-sm text-gray-500">{formatRateLimit(rateLimit)}</span>
+                            )}
+                            {job && (
+                                <button
+                                    onClick={() => job.abort()}
+                                    className="mt-4 px-4 py-2 rounded-xl text-sm font-medium bg-red-600 text-white hover:bg-red-700 transition-colors"
+                                >
+                                    <div className="flex items-center gap-2">
+                                        <X className="w-4 h-4" />
+                                        <span>Stop</span>
+                                    </div>
+                                </button>
+                            )}
                         </div>
                     </div>
                 )}
 
+                {settingsNotice && (
+                    <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-xl text-yellow-800 text-sm flex items-center justify-between gap-4">
+                        <span>{settingsNotice}</span>
+                        <button onClick={dismissNotice} className="text-yellow-700 hover:text-yellow-900" title="Dismiss">
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                )}
+
+                {attachedProfile && !generating && !processing && (
+                    <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-xl text-blue-700 text-sm text-center">
+                        Using the &quot;{attachedProfile}&quot; profile, attached to this repository
+                    </div>
+                )}
+
                 {/* Error Message */}
                 {error && !generating && !processing && (
                     <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700 text-center">
@@ -1161,10 +2069,59 @@ const SAC = () => {
                 )}
 
                 {/* Content Editor - Replace your existing content display with this */}
-                {!generating && !processing && content && <ContentEditor />}
+                {!generating && !processing && content && (
+                    <div className={packResult ? 'grid gap-4 xl:grid-cols-[minmax(0,1fr)_26rem] items-start' : ''}>
+                        <ContentEditor />
+                        {packResult && packedInput && (
+                            <FileStats
+                                files={packResult.files}
+                                skipped={packResult.skipped}
+                                selected={packedInput.selected}
+                                view={statsView}
+                                onViewChange={setStatsView}
+                                onToggle={handleToggleFiles}
+                            />
+                        )}
+                    </div>
+                )}
+
+                {/* Output Settings - changes re-render the output from the loaded files */}
+                {!generating && !processing && content && packedInput && (
+                    <div className="mt-4">
+                        <button
+                            onClick={() => setShowOutputSettings(!showOutputSettings)}
+                            className="w-full flex items-center justify-center gap-2 text-gray-600 hover:text-gray-900 p-4 bg-white rounded-xl border border-gray-200 shadow-lg hover:bg-gray-50 transition-colors"
+                            aria-expanded={showOutputSettings}
+                        >
+                            <Settings className="w-4 h-4" />
+                            <span>Output Settings</span>
+                            {showOutputSettings ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                        </button>
+                        {showOutputSettings && (
+                            <div className="bg-gray-50 border border-gray-200 rounded-xl p-6 space-y-6 mt-4">
+                                <p className="text-sm text-gray-500">
+                                    Changes are applied to the files already loaded, without fetching or dropping them again
+                                </p>
+                                {renderOutputSettings(true)}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* File Tree - pick files before generating */}
+                {!generating && !processing && !content && pendingFiles && (
+                    <FileTreePicker
+                        candidates={pendingFiles.candidates}
+                        local={pendingFiles.local}
+                        settings={settings}
+                        measure={measurePending}
+                        onGenerate={handleGenerate}
+                        onCancel={() => setPendingFiles(null)}
+                    />
+                )}
 
                 {/* Drop Zone and Advanced Settings */}
-                {!generating && !processing && !content && (
+                {!generating && !processing && !content && !pendingFiles && (
                     <>
                         <div
                             className={`
@@ -1188,8 +2145,48 @@ const SAC = () => {
                                     Drop Your Project Files
                                 </div>
                                 <div className="text-gray-500">
-                                    Supports all major programming languages
+                                    Supports all major programming languages, and .zip, .tar or .tar.gz archives
+                                </div>
+                                <div className="mt-4 flex flex-wrap justify-center gap-2">
+                                    <button
+                                        onClick={handleChooseFolder}
+                                        className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:border-blue-500 hover:text-blue-600"
+                                    >
+                                        <FolderOpen className="w-4 h-4" />
+                                        Choose folder
+                                    </button>
+                                    {savedDirectory && (
+                                        <button
+                                            onClick={() => handleReopenFolder(savedDirectory)}
+                                            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:border-blue-500 hover:text-blue-600"
+                                        >
+                                            <RefreshCw className="w-4 h-4" />
+                                            Reopen {savedDirectory.name}
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => fileInputRef.current?.click()}
+                                        className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:border-blue-500 hover:text-blue-600"
+                                    >
+                                        <FileArchive className="w-4 h-4" />
+                                        Choose an archive
+                                    </button>
                                 </div>
+                                <input
+                                    ref={folderInputRef}
+                                    type="file"
+                                    {...{ webkitdirectory: '' }}
+                                    className="hidden"
+                                    onChange={handlePick}
+                                />
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept={ARCHIVE_ACCEPT}
+                                    multiple
+                                    className="hidden"
+                                    onChange={handlePick}
+                                />
                                 {fileCount > 0 && (
                                     <div className="mt-4 text-sm text-gray-500">
                                         {fileCount} files processed • {(totalSize / 1024).toFixed(1)}KB
@@ -1200,11 +2197,20 @@ const SAC = () => {
 
 
                         <div className="mb-8">
-                            <GitHubInput
-                                onProcess={handleGitHubProcess}
+                            <RepositoryInput
+                                onProcess={handleRepoProcess}
+                                onListed={handleListed}
+                                onError={handleRepoError}
+                                startJob={startJob}
+                                onProgress={setProgress}
+                                onRateLimit={setRateLimit}
+                                rateLimit={rateLimit}
+                                resumeUrl={resumeUrl}
                                 processing={processing || generating}
                                 settings={settings}
                                 updateSettings={updateSettings}
+                                profiles={profiles}
+                                onAttachProfile={handleAttachProfile}
                             />
                         </div>
 
@@ -0,0 +1,59 @@
+import { createFileListSource, listCandidates, measureCandidates, normalizePath, packCandidates } from '@/lib';
+import type { WorkerRequest, WorkerResponse } from './packWorkerClient';
+
+// Reading, filtering, transforming and token counting happen here so large drops don't block the page
+const context = self as unknown as Worker;
+
+// Progress is posted at most this often, a message per file would flood the main thread
+const PROGRESS_INTERVAL = 100;
+
+const post = (response: WorkerResponse) => context.postMessage(response);
+
+const handleRequest = async (request: WorkerRequest) => {
+    const source = createFileListSource(request.files);
+
+    switch (request.type) {
+        case 'list': {
+            const candidates = await listCandidates(source, request.settings);
+            post({
+                type: 'listed',
+                candidates: candidates.map(({ path, size, skipReason }) => ({ path, size, skipReason }))
+            });
+            break;
+        }
+        case 'measure': {
+            const byPath = new Map((await source.list(() => false)).map(file => [normalizePath(file.path), file]));
+            const candidates = request.candidates.flatMap((candidate) => {
+                const file = byPath.get(candidate.path);
+                return file ? [{ ...file, ...candidate }] : [];
+            });
+            await measureCandidates(candidates, request.settings, {
+                onMeasured: tokens => post({ type: 'measured', tokens })
+            });
+            post({ type: 'done' });
+            break;
+        }
+        case 'pack': {
+            let lastProgress = 0;
+            const candidates = await listCandidates(source, request.settings);
+            const result = await packCandidates(candidates, request.settings, {
+                selected: request.selected && new Set(request.selected),
+                onProgress: (progress) => {
+                    const now = Date.now();
+                    if (now - lastProgress >= PROGRESS_INTERVAL || progress.processed === progress.total) {
+                        lastProgress = now;
+                        post({ type: 'progress', progress });
+                    }
+                }
+            });
+            post({ type: 'packed', result });
+            break;
+        }
+    }
+};
+
+context.onmessage = ({ data }: MessageEvent<WorkerRequest>) => {
+    handleRequest(data).catch((error) => {
+        post({ type: 'error', message: error instanceof Error ? error.message : 'Error processing files' });
+    });
+};
@@ -0,0 +1,129 @@
+import { AdvancedSettings, FileCandidate, LocalFile, PackProgress, PackResult, SkipReason, normalizePath } from '@/lib';
+
+// A listed file without its reader, which can't be posted between threads
+export interface ListedFile {
+    path: string;
+    size?: number;
+    skipReason?: SkipReason;
+}
+
+export type WorkerRequest =
+    | { type: 'list'; files: LocalFile[]; settings: AdvancedSettings }
+    | { type: 'measure'; files: LocalFile[]; settings: AdvancedSettings; candidates: ListedFile[] }
+    | { type: 'pack'; files: LocalFile[]; settings: AdvancedSettings; selected?: string[] };
+
+export type WorkerResponse =
+    | { type: 'listed'; candidates: ListedFile[] }
+    | { type: 'measured'; tokens: Record<string, number> }
+    | { type: 'progress'; progress: PackProgress }
+    | { type: 'packed'; result: PackResult }
+    // Every file was measured
+    | { type: 'done' }
+    | { type: 'error'; message: string };
+
+interface WorkerOptions {
+    signal?: AbortSignal;
+    onProgress?: (progress: PackProgress) => void;
+    onMeasured?: (tokens: Record<string, number>) => void;
+}
+
+// Run a single request in its own worker. The worker is terminated once the request settles,
+// or right away when `signal` aborts, so a stuck file can't keep the job alive.
+const runInWorker = <T extends WorkerResponse>(
+    request: WorkerRequest,
+    done: T['type'],
+    options: WorkerOptions = {}
+): Promise<T> => {
+    const { signal, onProgress, onMeasured } = options;
+
+    return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new Error('Operation cancelled'));
+            return;
+        }
+
+        const worker = new Worker(new URL('./pack.worker.ts', import.meta.url));
+
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', abort);
+        };
+        const abort = () => {
+            finish();
+            reject(new Error('Operation cancelled'));
+        };
+        signal?.addEventListener('abort', abort);
+
+        worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+            if (data.type === 'progress') {
+                onProgress?.(data.progress);
+            } else if (data.type === 'measured') {
+                onMeasured?.(data.tokens);
+            }
+
+            if (data.type === done) {
+                finish();
+                resolve(data as T);
+            } else if (data.type === 'error') {
+                finish();
+                reject(new Error(data.message));
+            }
+        };
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message || 'Error processing files'));
+        };
+
+        worker.postMessage(request);
+    });
+};
+
+// Give listed files their reader back, so the file tree can still read them on demand
+const toCandidates = (listed: ListedFile[], files: LocalFile[]): FileCandidate[] => {
+    const byPath = new Map(files.map(file => [normalizePath(file.path), file.file]));
+    return listed.map(candidate => ({
+        ...candidate,
+        read: async () => {
+            const file = byPath.get(candidate.path);
+            if (!file) throw new Error(`File not found: ${candidate.path}`);
+            return file.text();
+        }
+    }));
+};
+
+export const listInWorker = async (
+    files: LocalFile[],
+    settings: AdvancedSettings,
+    options: Pick<WorkerOptions, 'signal'> = {}
+): Promise<FileCandidate[]> => {
+    const { candidates } = await runInWorker<Extract<WorkerResponse, { type: 'listed' }>>(
+        { type: 'list', files, settings },
+        'listed',
+        options
+    );
+    return toCandidates(candidates, files);
+};
+
+export const measureInWorker = async (
+    files: LocalFile[],
+    candidates: FileCandidate[],
+    settings: AdvancedSettings,
+    options: Pick<WorkerOptions, 'signal' | 'onMeasured'> = {}
+): Promise<void> => {
+    const listed = candidates.map(({ path, size, skipReason }) => ({ path, size, skipReason }));
+    await runInWorker({ type: 'measure', files, settings, candidates: listed }, 'done', options);
+};
+
+export const packInWorker = async (
+    files: LocalFile[],
+    settings: AdvancedSettings,
+    options: Pick<WorkerOptions, 'signal' | 'onProgress'> & { selected?: Set<string> } = {}
+): Promise<PackResult> => {
+    const { selected, ...workerOptions } = options;
+    const { result } = await runInWorker<Extract<WorkerResponse, { type: 'packed' }>>(
+        { type: 'pack', files, settings, selected: selected && Array.from(selected) },
+        'packed',
+        workerOptions
+    );
+    return result;
+};
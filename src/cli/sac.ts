@@ -0,0 +1,202 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+    AdvancedSettings, DEFAULT_SETTINGS, MINIFY_LEVELS, OUTPUT_FORMATS, TOKENIZERS,
+    importProfile, isExportedProfile, isMinifyLevel, isOutputFormat, isTokenizerId, loadSettings, packFiles
+} from '../lib';
+import { createDirectorySource } from './source';
+
+const USAGE = `Usage: sac <directory> [options]
+
+Pack a local directory into a single AI-friendly context, using the same
+settings as the SAC web app.
+
+Options:
+  -o, --output <file>       Write the context to a file instead of stdout, split
+                            contexts are written to <file>.part-<i>.<ext>
+  -s, --settings <file>     Load a settings profile exported from the web app, or
+                            the browser's sac_advanced_settings localStorage entry
+  -t, --token-limit <n>     Stop adding files at this many tokens (-1 for unlimited)
+  -p, --part-size <n>       Split the context into parts of at most n tokens
+      --tokenizer <name>    Token counting: ${TOKENIZERS.map(tokenizer => tokenizer.id).join(', ')}
+  -e, --exclude <pattern>   Extra exclude pattern, can be repeated
+      --formats <list>      Comma separated allowed extensions (e.g. .ts,.tsx)
+  -f, --format <name>       Output format: ${OUTPUT_FORMATS.map(format => format.id).join(', ')}
+      --overview            Start with a directory tree of the packed files and
+                            the skipped files
+      --remove-comments     Remove comments
+      --minify              Minify code
+      --minify-level <name> Minification: ${MINIFY_LEVELS.map(level => level.id).join(', ')} (implies --minify)
+      --no-gitignore        Don't apply .gitignore files (.sacignore still applies)
+      --no-redact           Keep secrets (API keys, tokens...) instead of redacting them
+  -h, --help                Show this help
+`;
+
+const fail = (message: string, code = 1): never => {
+    console.error(`sac: ${message}`);
+    process.exit(code);
+};
+
+// Settings exported from localStorage, or a profile exported from the web app
+const loadSettingsFile = async (path: string): Promise<AdvancedSettings> => {
+    try {
+        const json = await readFile(path, 'utf8');
+        const parsed = JSON.parse(json);
+        if (isExportedProfile(parsed)) {
+            return { ...DEFAULT_SETTINGS, ...importProfile(json).settings };
+        }
+
+        const { settings, invalid } = loadSettings(parsed);
+        if (invalid.length > 0) {
+            console.error(`sac: invalid values in ${path} replaced with defaults: ${invalid.join(', ')}`);
+        }
+        return settings;
+    } catch (error) {
+        return fail(`could not read settings from ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+const parseCliArgs = () => parseArgs({
+    allowPositionals: true,
+    options: {
+        output: { type: 'string', short: 'o' },
+        settings: { type: 'string', short: 's' },
+        'token-limit': { type: 'string', short: 't' },
+        'part-size': { type: 'string', short: 'p' },
+        tokenizer: { type: 'string' },
+        exclude: { type: 'string', short: 'e', multiple: true },
+        formats: { type: 'string' },
+        format: { type: 'string', short: 'f' },
+        overview: { type: 'boolean' },
+        'remove-comments': { type: 'boolean' },
+        minify: { type: 'boolean' },
+        'minify-level': { type: 'string' },
+        'no-gitignore': { type: 'boolean' },
+        'no-redact': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' }
+    }
+});
+
+const main = async () => {
+    let parsed: ReturnType<typeof parseCliArgs>;
+    try {
+        parsed = parseCliArgs();
+    } catch (error) {
+        return fail(`${error instanceof Error ? error.message : error}\n\n${USAGE}`, 2);
+    }
+    const { values, positionals } = parsed;
+
+    if (values.help) {
+        process.stdout.write(USAGE);
+        return;
+    }
+
+    if (positionals.length !== 1) {
+        return fail(`expected exactly one directory\n\n${USAGE}`, 2);
+    }
+
+    const settings: AdvancedSettings = values.settings
+        ? await loadSettingsFile(values.settings)
+        : { ...DEFAULT_SETTINGS };
+
+    // Command line flags take precedence over the settings file
+    if (values['token-limit'] !== undefined) {
+        const tokenLimit = parseInt(values['token-limit'], 10);
+        if (Number.isNaN(tokenLimit)) {
+            return fail(`invalid token limit: ${values['token-limit']}`, 2);
+        }
+        settings.tokenLimit = tokenLimit || -1;
+    }
+    if (values['part-size'] !== undefined) {
+        const partSize = parseInt(values['part-size'], 10);
+        if (Number.isNaN(partSize) || partSize < 0) {
+            return fail(`invalid part size: ${values['part-size']}`, 2);
+        }
+        settings.partSize = partSize;
+    }
+    if (values.tokenizer !== undefined) {
+        if (!isTokenizerId(values.tokenizer)) {
+            return fail(`unknown tokenizer: ${values.tokenizer}`, 2);
+        }
+        settings.tokenizer = values.tokenizer;
+    }
+    if (values.exclude) {
+        settings.excludePatterns = [...settings.excludePatterns, ...values.exclude];
+    }
+    if (values.formats !== undefined) {
+        settings.allowedFormats = values.formats.split(',').map(type => type.trim()).join('\n');
+    }
+    if (values.format !== undefined) {
+        if (!isOutputFormat(values.format)) {
+            return fail(`unknown output format: ${values.format}`, 2);
+        }
+        settings.outputFormat = values.format;
+    }
+    if (values.overview) {
+        settings.includeOverview = true;
+    }
+    if (values['remove-comments']) {
+        settings.removeComments = true;
+    }
+    if (values.minify) {
+        settings.minifyCode = true;
+    }
+    if (values['minify-level'] !== undefined) {
+        if (!isMinifyLevel(values['minify-level'])) {
+            return fail(`unknown minify level: ${values['minify-level']}`, 2);
+        }
+        settings.minifyCode = true;
+        settings.minifyLevel = values['minify-level'];
+    }
+    if (values['no-gitignore']) {
+        settings.useGitignore = false;
+    }
+    if (values['no-redact']) {
+        settings.redactSecrets = false;
+    }
+
+    const result = await packFiles(createDirectorySource(positionals[0]), settings);
+
+    if (result.fileCount === 0) {
+        return fail('no valid files found or all files exceeded token limit');
+    }
+
+    if (values.output && result.parts.length > 0) {
+        const extension = extname(values.output);
+        const base = values.output.slice(0, values.output.length - extension.length);
+        for (const part of result.parts) {
+            await writeFile(`${base}.part-${part.index}${extension}`, part.content);
+        }
+    } else if (values.output) {
+        await writeFile(values.output, result.content);
+    } else if (result.parts.length > 0) {
+        process.stdout.write(result.parts.map(part => part.content).join('\n\n'));
+    } else {
+        process.stdout.write(result.content);
+    }
+
+    console.error(`Processed ${result.fileCount} files • ${(result.totalSize / 1024).toFixed(1)}KB • ${result.tokenCount.toLocaleString()} tokens`);
+    if (result.parts.length > 0) {
+        console.error(`Split into ${result.parts.length} parts: ${result.parts.map(part => part.tokens.toLocaleString()).join(', ')} tokens`);
+    }
+    if (result.redactions.length > 0) {
+        console.error(`Redacted ${result.redactions.length} secrets:`);
+        for (const { path, line, type } of result.redactions) {
+            console.error(`  ${path}:${line}  ${type}`);
+        }
+    }
+    if (result.truncated) {
+        console.error(`Token limit (${settings.tokenLimit}) reached. Lower priority files were left out or shortened:`);
+        for (const file of result.files.filter(file => file.omittedLines)) {
+            console.error(`  shortened  ${file.path} (${file.omittedLines} lines omitted)`);
+        }
+        for (const file of result.skipped.filter(file => file.reason === 'budget')) {
+            console.error(`  left out   ${file.path}`);
+        }
+    }
+};
+
+main().catch((error) => {
+    fail(error instanceof Error ? error.message : String(error));
+});
@@ -0,0 +1,42 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { FileSource, SourceFile } from '../lib';
+
+// Decode like `File.text()` in the browser (UTF-8, BOM stripped) so CLI output matches the web app
+const decoder = new TextDecoder();
+
+// File source backed by a local directory. Paths start with the directory name, like a dropped folder.
+export const createDirectorySource = (directory: string): FileSource => ({
+    local: true,
+    list: async (skipDirectory) => {
+        const root = resolve(directory);
+        const files: SourceFile[] = [];
+
+        const walk = async (absolutePath: string, path: string) => {
+            for (const entry of await readdir(absolutePath, { withFileTypes: true })) {
+                const entryAbsolutePath = join(absolutePath, entry.name);
+                const entryPath = `${path}/${entry.name}`;
+
+                if (entry.isDirectory()) {
+                    if (!skipDirectory(entryPath)) {
+                        await walk(entryAbsolutePath, entryPath);
+                    }
+                } else if (entry.isFile()) {
+                    const { size } = await stat(entryAbsolutePath);
+                    files.push({
+                        path: entryPath,
+                        size,
+                        read: async () => decoder.decode(await readFile(entryAbsolutePath))
+                    });
+                }
+            }
+        };
+
+        const rootName = basename(root);
+        if (!skipDirectory(rootName)) {
+            await walk(root, rootName);
+        }
+
+        return files;
+    }
+});
@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MAX_UNPACKED_SIZE, readStream, unpackArchive } from './archive';
+
+// proj/a.ts and proj/src/b.ts zipped on macOS, with __MACOSX/proj/._a.ts and proj/._b.ts
+const MAC_ZIP = 'UEsDBBQAAAAIACl1U13uiIOXFgAAABQAAAAJAAAAcHJvai9hLnRzS60oyC8qUUjOzysuUUhUsFUwtOYCAFBLAwQUAAAACAApdVNdKiwtpBYAAAAUAAAADQAAAHByb2ovc3JjL2IudHNLrSjILypRSM7PKy5RSFKwVTCy5gIAUEsDBBQAAAAIACl1U101FPLXBgAAAAQAAAAUAAAAX19NQUNPU1gvcHJvai8uX2EudHPLTS1JBABQSwMEFAAAAAgAKXVTXTUU8tcGAAAABAAAAAsAAABwcm9qLy5fYi50c8tNLUkEAFBLAQIUAxQAAAAIACl1U13uiIOXFgAAABQAAAAJAAAAAAAAAAAAAACAAQAAAABwcm9qL2EudHNQSwECFAMUAAAACAApdVNdKiwtpBYAAAAUAAAADQAAAAAAAAAAAAAAgAE9AAAAcHJvai9zcmMvYi50c1BLAQIUAxQAAAAIACl1U101FPLXBgAAAAQAAAAUAAAAAAAAAAAAAACAAX4AAABfX01BQ09TWC9wcm9qLy5fYS50c1BLAQIUAxQAAAAIACl1U101FPLXBgAAAAQAAAALAAAAAAAAAAAAAACAAbYAAABwcm9qLy5fYi50c1BLBQYAAAAABAAEAO0AAADlAAAAAAA=';
+
+describe('unpackArchive', () => {
+    it('drops macOS metadata and the single top-level directory', async () => {
+        const entries = await unpackArchive(new Blob([Buffer.from(MAC_ZIP, 'base64')]), 'zip');
+
+        assert.deepEqual(entries.map(({ path }) => path), ['a.ts', 'src/b.ts']);
+        assert.equal(new TextDecoder().decode(entries[0].data), 'export const a = 1;\n');
+    });
+
+    it('stops once the unpacked size goes over the limit', async () => {
+        const stream = new Blob([new Uint8Array(100)]).stream();
+        await assert.rejects(readStream(stream, MAX_UNPACKED_SIZE - 10), /larger than/);
+    });
+});
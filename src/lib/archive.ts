@@ -0,0 +1,224 @@
+// A regular file unpacked from an archive
+export interface ArchiveEntry {
+    path: string;
+    data: Uint8Array;
+}
+
+const BLOCK_SIZE = 512;
+
+// Total size of the files unpacked from a compressed archive, above which unpacking stops, so that
+// a zip bomb can't exhaust the tab's memory
+export const MAX_UNPACKED_SIZE = 512 * 1024 * 1024;
+
+const checkUnpackedSize = (size: number) => {
+    if (size > MAX_UNPACKED_SIZE) {
+        throw new Error(`Archive is larger than ${MAX_UNPACKED_SIZE / 1024 / 1024}MB once unpacked`);
+    }
+};
+
+const decoder = new TextDecoder();
+
+// NUL-terminated string field of a tar header
+const readString = (bytes: Uint8Array, offset: number, length: number): string => {
+    const field = bytes.subarray(offset, offset + length);
+    const end = field.indexOf(0);
+    return decoder.decode(end === -1 ? field : field.subarray(0, end));
+};
+
+const readOctal = (bytes: Uint8Array, offset: number, length: number): number => {
+    return parseInt(readString(bytes, offset, length).trim() || '0', 8);
+};
+
+// Pax extended header records look like "<length> <key>=<value>\n", with the length in bytes
+const parsePaxHeader = (data: Uint8Array): Record<string, string> => {
+    const records: Record<string, string> = {};
+    let offset = 0;
+
+    while (offset < data.length) {
+        const space = data.indexOf(0x20, offset);
+        const length = space === -1 ? 0 : parseInt(decoder.decode(data.subarray(offset, space)), 10);
+        if (!length) break;
+
+        const record = decoder.decode(data.subarray(space + 1, offset + length - 1));
+        const separator = record.indexOf('=');
+        records[record.slice(0, separator)] = record.slice(separator + 1);
+        offset += length;
+    }
+
+    return records;
+};
+
+// Regular files of a ustar archive, with GNU long names and pax paths (as in GitHub tarballs)
+export const parseTar = (bytes: Uint8Array): ArchiveEntry[] => {
+    const entries: ArchiveEntry[] = [];
+    let offset = 0;
+    let longPath: string | null = null;
+
+    while (offset + BLOCK_SIZE <= bytes.length) {
+        const header = bytes.subarray(offset, offset + BLOCK_SIZE);
+        // The archive ends with empty blocks
+        if (header.every(byte => byte === 0)) break;
+
+        const name = readString(header, 0, 100);
+        const size = readOctal(header, 124, 12);
+        const type = header[156] ? String.fromCharCode(header[156]) : '0';
+        const prefix = readString(header, 257, 6).startsWith('ustar') ? readString(header, 345, 155) : '';
+
+        const data = bytes.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+        offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+        if (type === 'L') {
+            longPath = readString(data, 0, data.length);
+            continue;
+        }
+        if (type === 'x') {
+            longPath = parsePaxHeader(data).path ?? longPath;
+            continue;
+        }
+
+        const path = longPath ?? (prefix ? `${prefix}/${name}` : name);
+        longPath = null;
+
+        // Directories, links and global headers carry no file contents
+        if (type === '0' || type === '7') {
+            entries.push({ path, data });
+        }
+    }
+
+    return entries;
+};
+
+// Read a decompressed stream, counting `unpacked` bytes already read towards `MAX_UNPACKED_SIZE`
+export const readStream = async (stream: ReadableStream<Uint8Array>, unpacked = 0): Promise<Uint8Array> => {
+    const reader = stream.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.length;
+        try {
+            checkUnpackedSize(unpacked + size);
+        } catch (error) {
+            await reader.cancel();
+            throw error;
+        }
+        chunks.push(value);
+    }
+
+    const bytes = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return bytes;
+};
+
+export const gunzip = (stream: ReadableStream<Uint8Array>): Promise<Uint8Array> => {
+    return readStream(stream.pipeThrough(new DecompressionStream('gzip')));
+};
+
+// Central directory records tell where each entry starts, even when sizes are missing from local headers
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+// The end of central directory record is 22 bytes plus a comment of at most 64KB
+const MAX_END_RECORD_OFFSET = 22 + 0xffff;
+
+const inflateRaw = (data: Uint8Array, unpacked: number): Promise<Uint8Array> => {
+    return readStream(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')), unpacked);
+};
+
+// Regular files of a zip archive, stored or deflated. Encrypted entries and zip64 archives are not supported.
+export const parseZip = async (bytes: Uint8Array): Promise<ArchiveEntry[]> => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    let end = -1;
+    for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - MAX_END_RECORD_OFFSET); offset--) {
+        if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+            end = offset;
+            break;
+        }
+    }
+    if (end === -1) throw new Error('Not a zip archive');
+
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    const entries: ArchiveEntry[] = [];
+    let unpacked = 0;
+
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+            throw new Error('Corrupt zip archive');
+        }
+
+        const flags = view.getUint16(offset + 8, true);
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        // Directories end with a slash, encrypted entries can't be read
+        if (path.endsWith('/') || flags & 1) continue;
+
+        // The local header has its own name and extra field lengths
+        const dataStart = localOffset + 30
+            + view.getUint16(localOffset + 26, true)
+            + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) {
+            entries.push({ path, data });
+        } else if (method === 8) {
+            entries.push({ path, data: await inflateRaw(data, unpacked) });
+        } else {
+            console.warn(`Skipping ${path}: unsupported zip compression method ${method}`);
+            continue;
+        }
+        unpacked += entries[entries.length - 1].data.length;
+        checkUnpackedSize(unpacked);
+    }
+
+    return entries;
+};
+
+export type ArchiveType = 'zip' | 'tar' | 'tar.gz';
+
+export const ARCHIVE_EXTENSION = /\.(zip|tar|tar\.gz|tgz)$/i;
+
+// File picker `accept` value for the supported archives
+export const ARCHIVE_ACCEPT = '.zip,.tar,.tar.gz,.tgz';
+
+export const getArchiveType = (name: string): ArchiveType | null => {
+    const extension = name.match(ARCHIVE_EXTENSION)?.[1].toLowerCase();
+    if (!extension) return null;
+    return extension === 'zip' || extension === 'tar' ? extension : 'tar.gz';
+};
+
+// Resource forks and Finder metadata added by macOS archivers: `__MACOSX/` and `._<name>` files
+const isMacMetadata = (path: string): boolean => {
+    return path.startsWith('__MACOSX/') || path.slice(path.lastIndexOf('/') + 1).startsWith('._');
+};
+
+// Unpack an uploaded archive like a dropped folder, without macOS metadata and without its single
+// top-level directory if it has one
+export const unpackArchive = async (file: Blob, type: ArchiveType): Promise<ArchiveEntry[]> => {
+    const entries = type === 'zip'
+        ? await parseZip(new Uint8Array(await file.arrayBuffer()))
+        : parseTar(type === 'tar.gz' ? await gunzip(file.stream()) : new Uint8Array(await file.arrayBuffer()));
+    return stripSingleRoot(entries.filter(({ path }) => !isMacMetadata(path)));
+};
+
+// Drop the top-level directory shared by every entry, like the `owner-repo-sha/` folder of GitHub archives
+export const stripSingleRoot = (entries: ArchiveEntry[]): ArchiveEntry[] => {
+    const roots = new Set(entries.map(({ path }) => path.split('/')[0]));
+    if (roots.size !== 1 || entries.some(({ path }) => !path.includes('/'))) return entries;
+
+    const prefixLength = entries[0].path.indexOf('/') + 1;
+    return entries.map(entry => ({ ...entry, path: entry.path.slice(prefixLength) }));
+};
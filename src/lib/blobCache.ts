@@ -0,0 +1,129 @@
+import { idbEntries, idbGet, idbKeys, idbUpdate } from './idb';
+
+// Repository files fetched before, kept across sessions in IndexedDB by git blob SHA. Contents are
+// addressed by their hash, so entries never go stale and forks share them. Every operation is best
+// effort: without IndexedDB (private windows, the CLI), files are simply fetched.
+
+// Total size of the cached contents, in UTF-8 bytes, above which the least recently used files are evicted
+export const BLOB_CACHE_LIMIT = 100 * 1024 * 1024;
+
+// Size of file contents in UTF-8 bytes, the unit of every file cache, counted without encoding them
+export const contentSize = (content: string): number => {
+    let size = 0;
+    for (let i = 0; i < content.length; i++) {
+        const code = content.charCodeAt(i);
+        if (code < 0x80) {
+            size += 1;
+        } else if (code < 0x800) {
+            size += 2;
+        } else if ((code & 0xfc00) === 0xd800 && (content.charCodeAt(i + 1) & 0xfc00) === 0xdc00) {
+            // Surrogate pair, a single 4-byte character
+            size += 4;
+            i++;
+        } else {
+            size += 3;
+        }
+    }
+    return size;
+};
+
+interface BlobMeta {
+    size: number;
+    // Last read or write, for LRU eviction
+    usedAt: number;
+}
+
+export interface BlobCacheUsage {
+    count: number;
+    size: number;
+}
+
+// Eviction scans every entry, so it runs once writes have settled rather than after each one
+const EVICTION_DELAY = 2000;
+let evictionTimer: ReturnType<typeof setTimeout> | null = null;
+
+const evictBlobs = async () => {
+    const entries = await idbEntries<BlobMeta>('blobMeta');
+    let size = entries.reduce((sum, [, meta]) => sum + meta.size, 0);
+    if (size <= BLOB_CACHE_LIMIT) return;
+
+    const evicted: string[] = [];
+    for (const [sha, meta] of entries.sort(([, a], [, b]) => a.usedAt - b.usedAt)) {
+        if (size <= BLOB_CACHE_LIMIT) break;
+        evicted.push(sha);
+        size -= meta.size;
+    }
+    await idbUpdate(['blobs', 'blobMeta'], store => evicted.forEach(sha => {
+        store('blobs').delete(sha);
+        store('blobMeta').delete(sha);
+    }));
+};
+
+const scheduleEviction = () => {
+    if (evictionTimer) clearTimeout(evictionTimer);
+    evictionTimer = setTimeout(() => {
+        evictionTimer = null;
+        evictBlobs().catch(error => console.warn('Error evicting cached files:', error));
+    }, EVICTION_DELAY);
+};
+
+// Git blob SHA-1 of file contents, as listed in trees
+export const gitBlobSha = async (data: Uint8Array): Promise<string> => {
+    const header = new TextEncoder().encode(`blob ${data.length}\0`);
+    const object = new Uint8Array(header.length + data.length);
+    object.set(header);
+    object.set(data, header.length);
+
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-1', object));
+    return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const readCachedBlob = async (sha: string): Promise<string | undefined> => {
+    try {
+        const content = await idbGet<string>('blobs', sha);
+        if (content !== undefined) {
+            const meta: BlobMeta = { size: contentSize(content), usedAt: Date.now() };
+            idbUpdate(['blobMeta'], store => store('blobMeta').put(meta, sha)).catch(() => undefined);
+        }
+        return content;
+    } catch {
+        return undefined;
+    }
+};
+
+export const writeCachedBlob = async (sha: string, content: string): Promise<void> => {
+    // A single large file would evict everything else
+    const size = contentSize(content);
+    if (size > BLOB_CACHE_LIMIT / 10) return;
+    try {
+        const meta: BlobMeta = { size, usedAt: Date.now() };
+        await idbUpdate(['blobs', 'blobMeta'], store => {
+            store('blobs').put(content, sha);
+            store('blobMeta').put(meta, sha);
+        });
+        scheduleEviction();
+    } catch {
+        // Storage full or unavailable, the file is fetched again next time
+    }
+};
+
+// SHAs of every cached file
+export const listCachedBlobs = async (): Promise<Set<string>> => {
+    try {
+        return new Set(await idbKeys('blobMeta'));
+    } catch {
+        return new Set();
+    }
+};
+
+export const getBlobCacheUsage = async (): Promise<BlobCacheUsage> => {
+    const entries = await idbEntries<BlobMeta>('blobMeta');
+    return { count: entries.length, size: entries.reduce((sum, [, meta]) => sum + meta.size, 0) };
+};
+
+export const clearBlobCache = async (): Promise<void> => {
+    await idbUpdate(['blobs', 'blobMeta'], store => {
+        store('blobs').clear();
+        store('blobMeta').clear();
+    });
+};
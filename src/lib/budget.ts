@@ -0,0 +1,132 @@
+import { getLanguage } from './format';
+import { Tokenizer } from './tokens';
+
+export type PriorityRuleId = 'entry' | 'readme' | 'config' | 'source' | 'tests';
+
+interface PriorityRule {
+    id: PriorityRuleId;
+    label: string;
+    matches: (path: string) => boolean;
+}
+
+// Smallest leftover budget worth filling with the head and tail of a file that doesn't fit
+export const MIN_TRUNCATED_TOKENS = 200;
+
+const ENTRY_NAMES = ['index', 'main', 'app', 'server', 'cli', 'mod', 'lib', '__init__', '__main__'];
+
+const CONFIG_FILES = [
+    'package.json', 'tsconfig.json', 'jsconfig.json', 'pyproject.toml', 'setup.py', 'setup.cfg',
+    'requirements.txt', 'cargo.toml', 'go.mod', 'gemfile', 'composer.json', 'pom.xml',
+    'build.gradle', 'dockerfile', 'docker-compose.yml', 'docker-compose.yaml', 'makefile', '.env.example'
+];
+
+// Languages that are data or prose rather than code
+const NON_SOURCE_LANGUAGES = ['markdown', 'mdx', 'text', 'csv', 'json', 'yaml', 'toml', 'ini', 'dotenv', 'xml'];
+
+const baseName = (path: string): string => path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+
+const isTestFile = (path: string): boolean => {
+    const lower = path.toLowerCase();
+    const name = baseName(path);
+    return /(^|\/)(tests?|__tests__|spec|e2e)\//.test(lower)
+        || /[._-](test|spec)\.[^.]+$/.test(name)
+        || /^test_.+\.py$/.test(name);
+};
+
+export const PRIORITY_RULES: PriorityRule[] = [
+    {
+        id: 'entry',
+        label: 'Entry points (index, main, app...)',
+        matches: path => !isTestFile(path) && ENTRY_NAMES.includes(baseName(path).replace(/\.[^.]+$/, ''))
+    },
+    {
+        id: 'readme',
+        label: 'README',
+        matches: path => baseName(path).startsWith('readme')
+    },
+    {
+        id: 'config',
+        label: 'Project configuration',
+        matches: (path) => {
+            const name = baseName(path);
+            return CONFIG_FILES.includes(name) || /^tsconfig\..+\.json$/.test(name) || /\.config\.[cm]?[jt]s$/.test(name);
+        }
+    },
+    {
+        id: 'source',
+        label: 'Source code',
+        matches: path => !isTestFile(path) && !NON_SOURCE_LANGUAGES.includes(getLanguage(path))
+    },
+    {
+        id: 'tests',
+        label: 'Tests',
+        matches: isTestFile
+    }
+];
+
+export const DEFAULT_PRIORITY_RULES = PRIORITY_RULES.map(rule => rule.id);
+
+export const isPriorityRuleId = (value: unknown): value is PriorityRuleId => {
+    return PRIORITY_RULES.some(rule => rule.id === value);
+};
+
+// Position of the first enabled rule matching the path; files matching none come last
+export const getPriority = (path: string, rules: PriorityRuleId[]): number => {
+    const index = rules.findIndex(id => PRIORITY_RULES.find(rule => rule.id === id)?.matches(path));
+    return index === -1 ? rules.length : index;
+};
+
+// Order files for the token budget: by priority rule, then smaller files first, then by path.
+// Files of unknown size (e.g. listed from a GitLab tree) come after those of the same priority with a size.
+export const rankFiles = <T extends { path: string; size?: number }>(files: T[], rules: PriorityRuleId[]): T[] => {
+    const compareSizes = (a?: number, b?: number) => (a === undefined || b === undefined
+        ? Number(a === undefined) - Number(b === undefined)
+        : a - b);
+    return files
+        .map(file => ({ file, priority: getPriority(file.path, rules) }))
+        .sort((a, b) => a.priority - b.priority
+            || compareSizes(a.file.size, b.file.size)
+            || (a.file.path < b.file.path ? -1 : a.file.path > b.file.path ? 1 : 0))
+        .map(({ file }) => file);
+};
+
+// Keep the first and last lines of a file within `maxTokens`, marking the omitted middle.
+// Returns null when not even a few lines fit.
+export const truncateHeadTail = (
+    content: string,
+    maxTokens: number,
+    tokenizer: Tokenizer
+): { content: string; omittedLines: number } | null => {
+    const lines = content.split('\n');
+    const marker = (omitted: number) => `... [${omitted} lines omitted to fit the token limit] ...`;
+    const available = maxTokens - tokenizer.count(`${marker(lines.length)}\n`);
+    if (available <= 0) return null;
+
+    // The head usually holds imports and declarations, so it gets the larger share
+    const headBudget = Math.floor(available * 0.6);
+    let head = 0;
+    let used = 0;
+    while (head < lines.length) {
+        const cost = tokenizer.count(`${lines[head]}\n`);
+        if (used + cost > headBudget) break;
+        used += cost;
+        head++;
+    }
+
+    let tail = 0;
+    while (tail < lines.length - head) {
+        const cost = tokenizer.count(`${lines[lines.length - 1 - tail]}\n`);
+        if (used + cost > available) break;
+        used += cost;
+        tail++;
+    }
+
+    if (head + tail === 0) return null;
+    if (head + tail === lines.length) return { content, omittedLines: 0 };
+
+    const omittedLines = lines.length - head - tail;
+    return {
+        content: [...lines.slice(0, head), marker(omittedLines), ...lines.slice(lines.length - tail)].join('\n'),
+        omittedLines
+    };
+};
@@ -0,0 +1,106 @@
+import { AdvancedSettings } from './settings';
+import { FormattableFile, OutputFormat, Preface, formatFile, formatPreface, renderFiles } from './format';
+import { Tokenizer } from './tokens';
+
+export interface ContextPart {
+    // 1-based position among `total` parts
+    index: number;
+    total: number;
+    content: string;
+    tokens: number;
+}
+
+// Files are joined with a blank line, which costs about one token
+const SEPARATOR_TOKENS = 1;
+
+// Tells the assistant to hold its answer until every part has been pasted
+export const partPreamble = (index: number, total: number): string => {
+    if (index === total) {
+        return `[Part ${index} of ${total}] This is the last part of the context. You now have all ${total} parts, answer using all of them.`;
+    }
+    return `[Part ${index} of ${total}] This context is split into ${total} parts. Wait until you have received all ${total} parts before answering; until then, only reply with "Received part ${index} of ${total}".`;
+};
+
+// Split a file that doesn't fit in a single part into line ranges that do.
+// A single line longer than the budget still gets a part of its own.
+const splitFile = (
+    file: FormattableFile,
+    budget: number,
+    tokenizer: Tokenizer,
+    format: OutputFormat
+): FormattableFile[] => {
+    const lines = file.content.split('\n');
+    // Cost of the file header and footer, with the widest possible line range
+    const overhead = tokenizer.count(formatFile({ path: file.path, content: '', lines: [lines.length, lines.length] }, format));
+    const pieces: FormattableFile[] = [];
+    let start = 0;
+    let tokens = overhead;
+
+    lines.forEach((line, index) => {
+        const lineTokens = tokenizer.count(`${line}\n`);
+        if (index > start && tokens + lineTokens > budget) {
+            pieces.push({ path: file.path, content: lines.slice(start, index).join('\n'), lines: [start + 1, index] });
+            start = index;
+            tokens = overhead;
+        }
+        tokens += lineTokens;
+    });
+    pieces.push({ path: file.path, content: lines.slice(start).join('\n'), lines: [start + 1, lines.length] });
+
+    return pieces;
+};
+
+// Split packed files into parts of at most `partSize` tokens, at file boundaries when possible and
+// at line boundaries inside files larger than a part. Returns no parts when everything fits in one.
+// The preface (header and overview), if any, opens the first part.
+export const splitIntoParts = (
+    files: (FormattableFile & { tokens: number })[],
+    settings: Pick<AdvancedSettings, 'partSize' | 'outputFormat'>,
+    tokenizer: Tokenizer,
+    preface: Preface = {}
+): ContextPart[] => {
+    const { partSize, outputFormat } = settings;
+    if (partSize <= 0) return [];
+
+    // Reserve room for the preamble, sized for an unlikely high part count so it holds for any total
+    const preambleTokens = Math.max(
+        tokenizer.count(partPreamble(998, 999)),
+        tokenizer.count(partPreamble(999, 999))
+    ) + SEPARATOR_TOKENS;
+    const budget = Math.max(partSize - preambleTokens, 1);
+
+    const groups: FormattableFile[][] = [];
+    let current: FormattableFile[] = [];
+    const prefaceBlocks = formatPreface(preface, outputFormat);
+    let used = prefaceBlocks.length === 0 ? 0 : tokenizer.count(prefaceBlocks.join('\n\n')) + SEPARATOR_TOKENS;
+
+    const add = (file: FormattableFile, tokens: number) => {
+        if ((current.length > 0 || used > 0) && used + tokens > budget) {
+            groups.push(current);
+            current = [];
+            used = 0;
+        }
+        current.push(file);
+        used += tokens;
+    };
+
+    for (const file of files) {
+        const tokens = file.tokens + SEPARATOR_TOKENS;
+        if (tokens <= budget) {
+            add({ path: file.path, content: file.content }, tokens);
+            continue;
+        }
+
+        for (const piece of splitFile(file, budget - SEPARATOR_TOKENS, tokenizer, outputFormat)) {
+            add(piece, tokenizer.count(formatFile(piece, outputFormat)) + SEPARATOR_TOKENS);
+        }
+    }
+    if (current.length > 0) groups.push(current);
+
+    if (groups.length <= 1) return [];
+
+    return groups.map((group, i) => {
+        const content = `${partPreamble(i + 1, groups.length)}\n\n${renderFiles(group, outputFormat, i === 0 ? preface : {})}`;
+        return { index: i + 1, total: groups.length, content, tokens: tokenizer.count(content) };
+    });
+};
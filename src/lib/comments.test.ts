@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { stripComments } from './comments';
+
+describe('stripComments', () => {
+    it('keeps comment markers inside strings, templates and regexes', () => {
+        assert.equal(
+            stripComments('const a = "// no"; // yes\nconst b = `/* ${c} */`; const r = /\\/\\//g; /* yes */', 'a.ts'),
+            'const a = "// no";\nconst b = `/* ${c} */`; const r = /\\/\\//g;'
+        );
+    });
+
+    it('keeps unquoted CSS urls', () => {
+        assert.equal(
+            stripComments('a { background: url(http://x.com/a.png); } // comment', 'a.scss'),
+            'a { background: url(http://x.com/a.png); }'
+        );
+        assert.equal(stripComments('a { background: url(//x.com/a.png); }', 'a.less'), 'a { background: url(//x.com/a.png); }');
+    });
+
+    it('removes PHP # comments but keeps attributes', () => {
+        assert.equal(stripComments('<?php\n#[Attr]\n$a = "# no"; # yes\n', 'a.php'), '<?php\n#[Attr]\n$a = "# no";\n');
+    });
+
+    it('keeps Rust raw strings', () => {
+        assert.equal(
+            stripComments('let s = r#"a // "b" /* c"#; // yes\nlet t = br"//";', 'a.rs'),
+            'let s = r#"a // "b" /* c"#;\nlet t = br"//";'
+        );
+    });
+
+    it('keeps JSX text as is', () => {
+        assert.equal(
+            stripComments('const a = <a href="/x">See https://example.com/docs</a>; // yes', 'a.tsx'),
+            'const a = <a href="/x">See https://example.com/docs</a>;'
+        );
+        assert.equal(
+            stripComments('const p = <p>Don\'t {/* yes */}<br /></p>; // yes\nconst q = 1 < 2; // yes', 'a.jsx'),
+            'const p = <p>Don\'t {}<br /></p>;\nconst q = 1 < 2;'
+        );
+    });
+
+    it('lexes HTML script and style bodies as JavaScript and CSS', () => {
+        assert.equal(
+            stripComments('<!-- yes --><script>const s = "<!-- x -->"; // yes\n</script><style>a::after { content: "/* x */"; }</style>', 'a.html'),
+            '<script>const s = "<!-- x -->";\n</script><style>a::after { content: "/* x */"; }</style>'
+        );
+    });
+});
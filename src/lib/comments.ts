@@ -0,0 +1,42 @@
+import { getLanguageSyntax, tokenize } from './lexer';
+
+// Lexer-based comment removal: comment markers inside strings, template literals,
+// regexes and shebangs are never touched. Files of unknown languages are returned as is.
+export const stripComments = (content: string, path: string): string => {
+    const syntax = getLanguageSyntax(path);
+    if (!syntax) return content;
+
+    let output = '';
+    // Output lines that held a comment are dropped if nothing but whitespace is left
+    let lineStart = 0;
+    let lineHadComment = false;
+
+    const endLine = (newline: boolean) => {
+        const line = output.slice(lineStart);
+        if (lineHadComment && line.trim() === '') {
+            output = output.slice(0, lineStart);
+            if (!newline) output = output.replace(/\n$/, '');
+        } else {
+            if (lineHadComment) output = output.slice(0, lineStart) + line.trimEnd();
+            if (newline) output += '\n';
+        }
+        lineStart = output.length;
+        lineHadComment = false;
+    };
+
+    for (const segment of tokenize(content, syntax)) {
+        if (segment.type === 'comment') {
+            lineHadComment = true;
+            continue;
+        }
+
+        const lines = segment.text.split('\n');
+        lines.forEach((line, index) => {
+            if (index > 0) endLine(true);
+            output += line;
+        });
+    }
+    endLine(false);
+
+    return output;
+};
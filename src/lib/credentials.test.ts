@@ -0,0 +1,18 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decryptTokens, deriveTokensKey, encryptTokens, isEncryptedTokens, pickTokens } from './credentials';
+
+describe('encryptTokens', () => {
+    it('decrypts with a key derived again from the passphrase, and rejects another one', async () => {
+        const tokens = pickTokens({ githubToken: 'ghp_example', gitlabToken: 'glpat-example' });
+        const key = await deriveTokensKey('correct horse');
+        const encrypted = await encryptTokens(tokens, key);
+        const again = await encryptTokens(tokens, key);
+
+        assert.ok(isEncryptedTokens(JSON.parse(JSON.stringify(encrypted))));
+        assert.equal(again.salt, encrypted.salt);
+        assert.notEqual(again.iv, encrypted.iv);
+        assert.deepEqual(await decryptTokens(encrypted, await deriveTokensKey('correct horse', encrypted)), tokens);
+        await assert.rejects(decryptTokens(encrypted, await deriveTokensKey('wrong', encrypted)), /Wrong passphrase/);
+    });
+});
@@ -0,0 +1,97 @@
+import { AdvancedSettings } from './settings';
+
+export type TokenStorageMode = 'memory' | 'session' | 'encrypted';
+
+export const TOKEN_STORAGE_MODES: { id: TokenStorageMode; label: string; description: string }[] = [
+    { id: 'memory', label: 'Memory only', description: 'Tokens are forgotten when the page is closed or reloaded' },
+    { id: 'session', label: 'This tab', description: 'Tokens are kept in sessionStorage until the tab is closed' },
+    {
+        id: 'encrypted',
+        label: 'Encrypted',
+        description: 'Tokens are kept in localStorage, encrypted with a key derived from a passphrase asked once per visit'
+    }
+];
+
+export const isTokenStorageMode = (value: unknown): value is TokenStorageMode => (
+    TOKEN_STORAGE_MODES.some(({ id }) => id === value)
+);
+
+// Settings holding access tokens, never saved with the other settings
+export const TOKEN_SETTINGS = ['githubToken', 'gitlabToken', 'bitbucketToken', 'giteaToken'] as const;
+
+export type AccessTokens = Pick<AdvancedSettings, typeof TOKEN_SETTINGS[number]>;
+
+// sessionStorage key of the tokens in `session` mode, localStorage key of the encrypted tokens
+export const TOKENS_STORAGE_KEY = 'sac_tokens';
+
+export const pickTokens = (settings: Partial<AdvancedSettings>): AccessTokens => {
+    return Object.fromEntries(TOKEN_SETTINGS.map(key => [
+        key,
+        typeof settings[key] === 'string' ? settings[key] : ''
+    ])) as AccessTokens;
+};
+
+export const hasTokens = (tokens: AccessTokens): boolean => TOKEN_SETTINGS.some(key => tokens[key] !== '');
+
+// Tokens encrypted with AES-GCM, binary fields in base64
+export interface EncryptedTokens {
+    salt: string;
+    iv: string;
+    iterations: number;
+    data: string;
+}
+
+// PBKDF2 iterations with SHA-256, makes guessing the passphrase of stolen tokens slow
+const KEY_ITERATIONS = 600000;
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+export const isEncryptedTokens = (parsed: unknown): parsed is EncryptedTokens => {
+    if (typeof parsed !== 'object' || parsed === null) return false;
+    const { salt, iv, iterations, data } = parsed as Record<string, unknown>;
+    return typeof salt === 'string' && typeof iv === 'string' && typeof iterations === 'number' && typeof data === 'string';
+};
+
+// Key derived from the passphrase, once per visit: deriving takes a noticeable moment by design.
+// Every save reuses its salt, with a new IV.
+export interface TokensKey {
+    key: CryptoKey;
+    salt: string;
+    iterations: number;
+}
+
+// Derive the key of saved tokens, or with a new salt when there are none yet
+export const deriveTokensKey = async (passphrase: string, saved?: EncryptedTokens): Promise<TokensKey> => {
+    const salt = saved ? fromBase64(saved.salt) : crypto.getRandomValues(new Uint8Array(16));
+    const iterations = saved?.iterations ?? KEY_ITERATIONS;
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    const key = await crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+
+    return { key, salt: toBase64(salt), iterations };
+};
+
+export const encryptTokens = async (tokens: AccessTokens, { key, salt, iterations }: TokensKey): Promise<EncryptedTokens> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(tokens)));
+
+    return { salt, iv: toBase64(iv), iterations, data: toBase64(new Uint8Array(data)) };
+};
+
+// Decrypt with a key derived from `encrypted` itself, see `deriveTokensKey`
+export const decryptTokens = async (encrypted: EncryptedTokens, { key }: TokensKey): Promise<AccessTokens> => {
+    let data: ArrayBuffer;
+    try {
+        data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, key, fromBase64(encrypted.data));
+    } catch {
+        // The authentication tag doesn't match: another passphrase, or tampered data
+        throw new Error('Wrong passphrase');
+    }
+    return pickTokens(JSON.parse(new TextDecoder().decode(data)));
+};
@@ -0,0 +1,37 @@
+import { AdvancedSettings, DEFAULT_SKIP_PATTERNS } from './settings';
+
+export const shouldSkipEntry = (path: string, settings: Pick<AdvancedSettings, 'excludePatterns'>): boolean => {
+    const normalizedPath = path.toLowerCase();
+
+    // Combine default and user patterns
+    const allPatterns = [
+        ...DEFAULT_SKIP_PATTERNS,
+        ...(settings.excludePatterns || [])
+    ].map(pattern => pattern.toLowerCase().trim())
+        .filter(Boolean);
+
+    return allPatterns.some(pattern => {
+        // Convert glob pattern to regex
+        const regexPattern = pattern
+            .replace(/[.+^${}()|[\]\\]/g, '\\$&') // Escape regex special chars
+            .replace(/\*/g, '.*')                  // Convert * to .*
+            .replace(/\?/g, '.');                  // Convert ? to .
+
+        return new RegExp(regexPattern).test(normalizedPath);
+    });
+};
+
+export const isAllowedFileType = (filename: string, settings: Pick<AdvancedSettings, 'allowedFormats'>): boolean => {
+    const extension = '.' + filename.split('.').pop()?.toLowerCase();
+    if (!extension) return false;
+
+    const allowedTypes = settings.allowedFormats
+        .split('\n')
+        .map(type => type.trim().toLowerCase())
+        .filter(Boolean);
+
+    // If no allowed types are specified, accept all files
+    if (allowedTypes.length === 0) return true;
+
+    return allowedTypes.includes(extension);
+};
@@ -0,0 +1,147 @@
+export type OutputFormat = 'comment' | 'xml' | 'markdown' | 'json';
+
+export const OUTPUT_FORMATS: { id: OutputFormat; label: string }[] = [
+    { id: 'comment', label: '// File: comments (classic)' },
+    { id: 'xml', label: 'XML <file> tags (recommended for Claude)' },
+    { id: 'markdown', label: 'Markdown code blocks' },
+    { id: 'json', label: 'JSON array' }
+];
+
+export interface FormattableFile {
+    path: string;
+    content: string;
+    // First and last line (1-based) when only a slice of the file is included, see `splitIntoParts`
+    lines?: [number, number];
+}
+
+const LANGUAGES: Record<string, string> = {
+    js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript',
+    ts: 'typescript', tsx: 'tsx', vue: 'vue', svelte: 'svelte',
+    html: 'html', htm: 'html', xml: 'xml', svg: 'xml',
+    css: 'css', scss: 'scss', sass: 'sass', less: 'less',
+    py: 'python', rb: 'ruby', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin',
+    swift: 'swift', c: 'c', h: 'c', cpp: 'cpp', cc: 'cpp', hpp: 'cpp', cs: 'csharp',
+    php: 'php', lua: 'lua', hs: 'haskell', sh: 'bash', bash: 'bash', zsh: 'bash',
+    sql: 'sql', json: 'json', yaml: 'yaml', yml: 'yaml', toml: 'toml', ini: 'ini',
+    env: 'dotenv', md: 'markdown', mdx: 'mdx', txt: 'text', csv: 'csv',
+    diff: 'diff', patch: 'diff'
+};
+
+const FILE_NAME_LANGUAGES: Record<string, string> = {
+    dockerfile: 'dockerfile',
+    makefile: 'makefile'
+};
+
+export const isOutputFormat = (value: unknown): value is OutputFormat => {
+    return OUTPUT_FORMATS.some(format => format.id === value);
+};
+
+// Language identifier used for Markdown fences and the JSON `language` field
+export const getLanguage = (path: string): string => {
+    // Base versions of changed files (`<path>.base`) are in the language of the file
+    const name = path.slice(path.lastIndexOf('/') + 1).toLowerCase().replace(/(\.[^.]+)\.base$/, '$1');
+    if (FILE_NAME_LANGUAGES[name]) return FILE_NAME_LANGUAGES[name];
+
+    const dot = name.lastIndexOf('.');
+    return (dot !== -1 && LANGUAGES[name.slice(dot + 1)]) || 'text';
+};
+
+const escapeAttribute = (value: string): string => {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+};
+
+// Use a fence longer than any backtick run inside the file so it can't be closed early
+const fenceFor = (content: string): string => {
+    const longest = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+    return '`'.repeat(longest + 1);
+};
+
+const toJsonItem = ({ path, content, lines }: FormattableFile) => ({
+    path,
+    language: getLanguage(path),
+    ...(lines && { lines: `${lines[0]}-${lines[1]}` }),
+    content
+});
+
+// Format a single file block. JSON blocks are array items, see `renderFiles`.
+export const formatFile = (file: FormattableFile, format: OutputFormat): string => {
+    const { path, content, lines } = file;
+    // Closing tags and fences go on their own line, without a blank line before them
+    const body = content.replace(/\n+$/, '');
+    const range = lines ? ` (lines ${lines[0]}-${lines[1]})` : '';
+
+    switch (format) {
+        case 'xml': {
+            const linesAttribute = lines ? ` lines="${lines[0]}-${lines[1]}"` : '';
+            return `<file path="${escapeAttribute(path)}"${linesAttribute}>\n${body}\n</file>`;
+        }
+        case 'markdown': {
+            const fence = fenceFor(content);
+            return `## ${path}${range}\n\n${fence}${getLanguage(path)}\n${body}\n${fence}`;
+        }
+        case 'json':
+            return JSON.stringify(toJsonItem(file), null, 2);
+        default:
+            return `// File: ${path}${range}\n${content}`;
+    }
+};
+
+// Block for the project overview (see `renderOverview`), placed before the files
+export const formatOverview = (overview: string, format: OutputFormat): string => {
+    switch (format) {
+        case 'xml':
+            return `<overview>\n${overview}\n</overview>`;
+        case 'markdown': {
+            const fence = fenceFor(overview);
+            return `## Project overview\n\n${fence}text\n${overview}\n${fence}`;
+        }
+        case 'json':
+            return JSON.stringify({ overview }, null, 2);
+        default:
+            return `// Project overview\n${overview}`;
+    }
+};
+
+// Block for the header describing where the files come from, placed before the overview
+export const formatHeader = (header: string, format: OutputFormat): string => {
+    switch (format) {
+        case 'xml':
+            return `<change>\n${header}\n</change>`;
+        case 'markdown': {
+            const fence = fenceFor(header);
+            return `## Change\n\n${fence}text\n${header}\n${fence}`;
+        }
+        case 'json':
+            return JSON.stringify({ change: header }, null, 2);
+        default:
+            return `// Change\n${header}`;
+    }
+};
+
+// Text placed before the files
+export interface Preface {
+    // Where the files come from, e.g. the pull request they were changed in
+    header?: string;
+    // See `renderOverview`
+    overview?: string;
+}
+
+// Blocks of the preface, header first
+export const formatPreface = ({ header, overview }: Preface, format: OutputFormat): string[] => [
+    ...(header !== undefined ? [formatHeader(header, format)] : []),
+    ...(overview !== undefined ? [formatOverview(overview, format)] : [])
+];
+
+// The preface comes first: as the first items of the JSON array, or as blocks for the other formats
+export const renderFiles = (files: FormattableFile[], format: OutputFormat, preface: Preface = {}): string => {
+    if (format === 'json') {
+        const { header, overview } = preface;
+        return JSON.stringify([
+            ...(header !== undefined ? [{ change: header }] : []),
+            ...(overview !== undefined ? [{ overview }] : []),
+            ...files.map(toJsonItem)
+        ], null, 2);
+    }
+    const output = [...formatPreface(preface, format), ...files.map(file => formatFile(file, format))].join('\n\n');
+    return format === 'comment' ? output.trim() : output;
+};
@@ -0,0 +1,86 @@
+// Minimal promise wrapper around IndexedDB, for values localStorage can't hold (directory handles,
+// cached repository files)
+const DB_NAME = 'sac';
+const DB_VERSION = 2;
+const STORES = ['handles', 'blobs', 'blobMeta'] as const;
+
+export type StoreName = typeof STORES[number];
+
+let database: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!database) {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            for (const store of STORES) {
+                if (!request.result.objectStoreNames.contains(store)) {
+                    request.result.createObjectStore(store);
+                }
+            }
+        };
+        database = requestToPromise(request);
+        // Let a later call retry, e.g. after the user allowed storage
+        database.catch(() => {
+            database = null;
+        });
+    }
+    return database;
+};
+
+const withStore = async <T>(
+    name: StoreName,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    return requestToPromise(run(db.transaction(name, mode).objectStore(name)));
+};
+
+export const idbGet = <T>(store: StoreName, key: string): Promise<T | undefined> => {
+    return withStore(store, 'readonly', s => s.get(key));
+};
+
+export const idbSet = async (store: StoreName, key: string, value: unknown): Promise<void> => {
+    await withStore(store, 'readwrite', s => s.put(value, key));
+};
+
+export const idbDelete = async (store: StoreName, key: string): Promise<void> => {
+    await withStore(store, 'readwrite', s => s.delete(key));
+};
+
+export const idbKeys = async (store: StoreName): Promise<string[]> => {
+    return (await withStore(store, 'readonly', s => s.getAllKeys())) as string[];
+};
+
+// Every key and value of a store, read in a single transaction
+export const idbEntries = async <T>(store: StoreName): Promise<[string, T][]> => {
+    const db = await openDatabase();
+    const objectStore = db.transaction(store, 'readonly').objectStore(store);
+    const [keys, values] = await Promise.all([
+        requestToPromise(objectStore.getAllKeys()),
+        requestToPromise(objectStore.getAll())
+    ]);
+    return keys.map((key, i) => [key as string, values[i] as T]);
+};
+
+// Write to several stores at once, resolved when the transaction is committed
+export const idbUpdate = async (
+    stores: StoreName[],
+    run: (store: (name: StoreName) => IDBObjectStore) => void
+): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(stores, 'readwrite');
+    run(name => transaction.objectStore(name));
+    await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
@@ -0,0 +1,149 @@
+// .gitignore / .sacignore support with git's matching rules:
+// negation, anchoring, directory-only patterns and nested ignore files
+export const GITIGNORE_FILE = '.gitignore';
+export const SACIGNORE_FILE = '.sacignore';
+
+export interface IgnoreFile {
+    // Path of the ignore file itself, e.g. `repo/src/.gitignore`
+    path: string;
+    content: string;
+}
+
+interface IgnoreRule {
+    base: string;
+    regex: RegExp;
+    negated: boolean;
+    directoryOnly: boolean;
+}
+
+const dirname = (path: string): string => {
+    const index = path.lastIndexOf('/');
+    return index === -1 ? '' : path.slice(0, index);
+};
+
+export const isIgnoreFile = (path: string, names = [GITIGNORE_FILE, SACIGNORE_FILE]): boolean => {
+    return names.includes(path.slice(path.lastIndexOf('/') + 1));
+};
+
+// Convert a single glob (already stripped of `!`, leading and trailing `/`) to a regex source
+const globToRegex = (glob: string): string => {
+    let regex = '';
+    let i = 0;
+
+    while (i < glob.length) {
+        const char = glob[i];
+
+        if (glob.startsWith('**/', i) && (i === 0 || glob[i - 1] === '/')) {
+            regex += '(?:.*/)?';
+            i += 3;
+        } else if (glob.startsWith('**', i) && i === glob.length - 2 && (i === 0 || glob[i - 1] === '/')) {
+            regex += '.*';
+            i += 2;
+        } else if (char === '*') {
+            regex += '[^/]*';
+            i++;
+        } else if (char === '?') {
+            regex += '[^/]';
+            i++;
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 2);
+            if (end === -1) {
+                regex += '\\[';
+                i++;
+                continue;
+            }
+            let range = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+            if (range.startsWith('!')) range = '^' + range.slice(1);
+            regex += `[${range}]`;
+            i = end + 1;
+        } else if (char === '\\' && i + 1 < glob.length) {
+            regex += glob[i + 1].replace(/[.+^${}()|[\]\\*?/]/g, '\\$&');
+            i += 2;
+        } else {
+            regex += char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+            i++;
+        }
+    }
+
+    return regex;
+};
+
+const parseIgnoreLine = (line: string, base: string): IgnoreRule | null => {
+    // Trailing spaces are ignored unless escaped
+    let pattern = line.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) return null;
+
+    let negated = false;
+    if (pattern.startsWith('!')) {
+        negated = true;
+        pattern = pattern.slice(1);
+    } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+        pattern = pattern.slice(1);
+    }
+
+    let directoryOnly = false;
+    if (pattern.endsWith('/')) {
+        directoryOnly = true;
+        pattern = pattern.replace(/\/+$/, '');
+    }
+    if (!pattern) return null;
+
+    // A slash anywhere but the end anchors the pattern to the ignore file's directory
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\/+/, '');
+
+    const source = globToRegex(pattern);
+    return {
+        base,
+        regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`),
+        negated,
+        directoryOnly
+    };
+};
+
+export const parseIgnoreFile = ({ path, content }: IgnoreFile): IgnoreRule[] => {
+    const base = dirname(path);
+    return content
+        .split(/\r?\n/)
+        .map(line => parseIgnoreLine(line, base))
+        .filter((rule): rule is IgnoreRule => rule !== null);
+};
+
+// Build a predicate telling whether a file path is ignored by any of the given ignore files
+export const createIgnoreMatcher = (files: IgnoreFile[]): ((path: string) => boolean) => {
+    // Shallow files first so deeper ones take precedence, .sacignore after .gitignore in the same directory
+    const rules = [...files]
+        .sort((a, b) => {
+            const depth = a.path.split('/').length - b.path.split('/').length;
+            if (depth !== 0) return depth;
+            return Number(isIgnoreFile(a.path, [SACIGNORE_FILE])) - Number(isIgnoreFile(b.path, [SACIGNORE_FILE]));
+        })
+        .flatMap(parseIgnoreFile);
+
+    if (rules.length === 0) {
+        return () => false;
+    }
+
+    const matches = (path: string, isDirectory: boolean): boolean => {
+        let ignored = false;
+        for (const rule of rules) {
+            if (rule.directoryOnly && !isDirectory) continue;
+            if (rule.base && !path.startsWith(rule.base + '/')) continue;
+
+            const relativePath = rule.base ? path.slice(rule.base.length + 1) : path;
+            if (rule.regex.test(relativePath)) {
+                ignored = !rule.negated;
+            }
+        }
+        return ignored;
+    };
+
+    return (path: string) => {
+        // A file can't be re-included once one of its parent directories is ignored
+        const segments = path.split('/');
+        for (let i = 1; i < segments.length; i++) {
+            if (matches(segments.slice(0, i).join('/'), true)) return true;
+        }
+        return matches(path, false);
+    };
+};
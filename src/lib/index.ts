@@ -0,0 +1,26 @@
+export * from './settings';
+export * from './profiles';
+export * from './credentials';
+export * from './filters';
+export * from './ignore';
+export * from './lexer';
+export * from './comments';
+export * from './minify';
+export * from './transform';
+export * from './secrets';
+export * from './format';
+export * from './chunk';
+export * from './overview';
+export * from './budget';
+export * from './tokens';
+export * from './pack';
+export * from './tree';
+export * from './archive';
+export * from './ratelimit';
+export * from './idb';
+export * from './blobCache';
+export * from './sources/files';
+export * from './sources/entries';
+export * from './sources/handle';
+export * from './providers';
+export * from './sources/repository';
@@ -0,0 +1,456 @@
+// A small lexer splitting source files into code, literals and comments. Each language family
+// describes its comments and literals, so markers inside strings, templates and regexes are never misread.
+
+interface StringSyntax {
+    open: string;
+    close: string;
+    // Backslash escapes the next character
+    escapes: boolean;
+    // Strings that can't span lines end at the newline if they were never closed
+    multiline: boolean;
+}
+
+export interface LanguageSyntax {
+    line: string[];
+    block: [string, string][];
+    strings: StringSyntax[];
+    // Rust, Swift and Kotlin allow /* /* nested */ */ block comments
+    nestedBlocks?: boolean;
+    // Shell, YAML, TOML: `#` only starts a comment at the start of a word (`$#`, `a#b` are not comments)
+    lineAtWordStart?: boolean;
+    // JavaScript family: `template ${expressions}` and /regex/ literals
+    templates?: boolean;
+    regexes?: boolean;
+    // Rust: 'a is a lifetime, only 'x' and '\n' are char literals
+    charLiterals?: boolean;
+    // Rust: r"...", r#"..."# raw strings, with no escapes
+    rawStrings?: boolean;
+    // CSS family: unquoted url(http://...) is a literal, its `//` doesn't start a comment
+    urls?: boolean;
+    // PHP 8: `#[` starts an attribute, not a `#` comment
+    attributes?: boolean;
+    // JSX: text between tags is plain text, its `//` and `'` are neither comments nor strings
+    jsx?: boolean;
+    // HTML family: <script> bodies are lexed as JavaScript and <style> bodies as CSS
+    embedded?: boolean;
+}
+
+const quote = (char: string, escapes = true, multiline = false): StringSyntax => ({ open: char, close: char, escapes, multiline });
+const tripleQuote = (char: string, escapes = true): StringSyntax => ({ open: char.repeat(3), close: char.repeat(3), escapes, multiline: true });
+
+const C_FAMILY: LanguageSyntax = {
+    line: ['//'],
+    block: [['/*', '*/']],
+    strings: [tripleQuote('"'), quote('"'), quote('\'')]
+};
+
+const JAVASCRIPT: LanguageSyntax = {
+    ...C_FAMILY,
+    strings: [quote('"'), quote('\'')],
+    templates: true,
+    regexes: true
+};
+
+const CSS: LanguageSyntax = {
+    line: [],
+    block: [['/*', '*/']],
+    strings: [quote('"'), quote('\'')],
+    urls: true
+};
+
+const SCSS: LanguageSyntax = {
+    ...C_FAMILY,
+    strings: [quote('"'), quote('\'')],
+    urls: true
+};
+
+const SYNTAXES: Record<string, LanguageSyntax> = {
+    javascript: JAVASCRIPT,
+    jsx: { ...JAVASCRIPT, jsx: true },
+    c: C_FAMILY,
+    go: { ...C_FAMILY, strings: [quote('"'), quote('\''), quote('`', false, true)] },
+    rust: { ...C_FAMILY, strings: [quote('"', true, true)], nestedBlocks: true, charLiterals: true, rawStrings: true },
+    nested: { ...C_FAMILY, nestedBlocks: true },
+    python: {
+        line: ['#'],
+        block: [],
+        strings: [tripleQuote('"'), tripleQuote('\''), quote('"'), quote('\'')]
+    },
+    hash: {
+        line: ['#'],
+        block: [],
+        strings: [quote('"'), quote('\'', false)],
+        lineAtWordStart: true
+    },
+    sql: {
+        line: ['--'],
+        block: [['/*', '*/']],
+        strings: [quote('\'', false, true), quote('"', false, true), quote('`', false, true)]
+    },
+    html: {
+        line: [],
+        block: [['<!--', '-->']],
+        strings: [],
+        embedded: true
+    },
+    css: CSS,
+    scss: SCSS,
+    json: {
+        line: [],
+        block: [],
+        strings: [quote('"')]
+    },
+    php: {
+        ...C_FAMILY,
+        line: ['//', '#'],
+        strings: [quote('"', true, true), quote('\'', true, true)],
+        attributes: true
+    }
+};
+
+// Extensions without an entry (Markdown, CSV, plain text...) have no comments or literals to lex
+const EXTENSION_SYNTAXES: Record<string, string> = {
+    js: 'jsx', jsx: 'jsx', mjs: 'jsx', cjs: 'jsx', tsx: 'jsx', ts: 'javascript',
+    c: 'c', h: 'c', cpp: 'c', cc: 'c', hpp: 'c', cs: 'c', java: 'c', php: 'php', dart: 'c', scala: 'c',
+    kt: 'nested', swift: 'nested',
+    go: 'go',
+    rs: 'rust',
+    py: 'python',
+    rb: 'hash', sh: 'hash', bash: 'hash', zsh: 'hash', yaml: 'hash', yml: 'hash', toml: 'hash', env: 'hash',
+    r: 'hash', pl: 'hash', dockerfile: 'hash', makefile: 'hash',
+    sql: 'sql',
+    html: 'html', htm: 'html', xml: 'html', svg: 'html', vue: 'html', svelte: 'html',
+    css: 'css',
+    scss: 'scss', less: 'scss',
+    json: 'json'
+};
+
+export const getLanguageSyntax = (path: string): LanguageSyntax | null => {
+    const name = path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+    const dot = name.lastIndexOf('.');
+    const key = EXTENSION_SYNTAXES[dot === -1 ? name : name.slice(dot + 1)];
+    return key ? SYNTAXES[key] : null;
+};
+
+// Characters after which a `/` starts a regex literal rather than a division
+const REGEX_PRECEDERS = '(,=:[!&|?{};+-*%<>~^';
+const REGEX_KEYWORDS = ['return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await'];
+
+// Rust char literals: 'x', '\n', '\x7f', '\u{1F600}'
+const CHAR_LITERAL = /'(?:\\(?:u\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{2}|.)|[^\\'\n])'/y;
+// Start of a Rust raw string, r"...", r#"..."# or br"...", capturing the hashes
+const RAW_STRING = /b?r(#*)"/y;
+// CSS url() whose argument isn't quoted, up to the closing parenthesis
+const UNQUOTED_URL = /url\(\s*[^\s'")][^)\n]*\)/iy;
+// Start of a JSX element or fragment; `<T,>` and `<T extends U>` are TypeScript generics
+const JSX_TAG = /<(?:>|[A-Za-z_$][\w$.:-]*(?!\s+extends\b)(?=[\s/>{]))/y;
+// Opening <script> or <style> tag, capturing its name
+const EMBEDDED_TAG = /<(script|style)\b[^>]*>/iy;
+
+// In JSX, an element being read (its tag or the text between its tags) or an {expression}
+// in it. `templates` is the number of template ${expressions} open around the JSX expression.
+type JsxContext = { kind: 'element'; depth: number; inTag: boolean } | { kind: 'expression'; braces: number; templates: number };
+
+export type SegmentType = 'code' | 'string' | 'comment';
+
+export interface Segment {
+    type: SegmentType;
+    text: string;
+}
+
+// Split content into consecutive code, string (any literal) and comment segments
+export const tokenize = (content: string, syntax: LanguageSyntax): Segment[] => {
+    const segments: Segment[] = [];
+    let i = 0;
+    // Open `${` expressions inside template literals, each with its own brace depth
+    const templateBraces: number[] = [];
+    const jsx: JsxContext[] = [];
+    let lastSignificant = '';
+    let lastWord = '';
+
+    const add = (type: SegmentType, text: string) => {
+        const last = segments[segments.length - 1];
+        if (last && last.type === type && type === 'code') {
+            last.text += text;
+        } else {
+            segments.push({ type, text });
+        }
+    };
+
+    // Add content[i, end) as a segment, merging consecutive code
+    const push = (type: SegmentType, end: number) => {
+        add(type, content.slice(i, end));
+        i = end;
+    };
+
+    // A shebang line is kept as code, it's never a comment
+    if (content.startsWith('#!')) {
+        const end = content.indexOf('\n');
+        push('code', end === -1 ? content.length : end);
+    }
+
+    // Scan a string from its opening delimiter, returning the index right after it
+    const scanString = (start: number, string: StringSyntax): number => {
+        let j = start + string.open.length;
+        while (j < content.length) {
+            if (string.escapes && content[j] === '\\') {
+                j += 2;
+            } else if (content.startsWith(string.close, j)) {
+                return j + string.close.length;
+            } else if (!string.multiline && content[j] === '\n') {
+                return j;
+            } else {
+                j++;
+            }
+        }
+        return content.length;
+    };
+
+    // Scan the literal part of a template from after "`" or "}", stopping after "`" or "${"
+    const scanTemplate = (start: number): { end: number; expression: boolean } => {
+        let j = start;
+        while (j < content.length) {
+            if (content[j] === '\\') {
+                j += 2;
+            } else if (content[j] === '`') {
+                return { end: j + 1, expression: false };
+            } else if (content.startsWith('${', j)) {
+                return { end: j + 2, expression: true };
+            } else {
+                j++;
+            }
+        }
+        return { end: content.length, expression: false };
+    };
+
+    const scanRegex = (start: number): number => {
+        let j = start + 1;
+        let inClass = false;
+        while (j < content.length && content[j] !== '\n') {
+            if (content[j] === '\\') {
+                j += 2;
+                continue;
+            }
+            if (content[j] === '[') inClass = true;
+            else if (content[j] === ']') inClass = false;
+            else if (content[j] === '/' && !inClass) {
+                j++;
+                while (/[a-z]/i.test(content[j] ?? '')) j++;
+                return j;
+            }
+            j++;
+        }
+        return start + 1;
+    };
+
+    const scanBlock = (start: number, [open, close]: [string, string]): number => {
+        let depth = 0;
+        let j = start;
+        while (j < content.length) {
+            if (content.startsWith(open, j) && (syntax.nestedBlocks || depth === 0)) {
+                depth++;
+                j += open.length;
+            } else if (content.startsWith(close, j)) {
+                depth--;
+                j += close.length;
+                if (depth === 0) return j;
+            } else {
+                j++;
+            }
+        }
+        return content.length;
+    };
+
+    // Whether the next token starts an expression, so `/` opens a regex and `<` a JSX element
+    const expectsExpression = () => lastSignificant === '' || REGEX_PRECEDERS.includes(lastSignificant) || REGEX_KEYWORDS.includes(lastWord);
+
+    // A JSX element is a value, like a closing parenthesis
+    const closeJsx = () => {
+        jsx.pop();
+        lastSignificant = ')';
+        lastWord = '';
+    };
+
+    // Read one step of a JSX element: its tags, attribute values and text are never comments
+    const scanJsxElement = (element: { depth: number; inTag: boolean }) => {
+        const char = content[i];
+        if (char === '{') {
+            jsx.push({ kind: 'expression', braces: 0, templates: templateBraces.length });
+            lastSignificant = '{';
+            push('code', i + 1);
+        } else if (element.inTag) {
+            if (char === '"' || char === '\'') {
+                // Attribute values have no escapes
+                const end = content.indexOf(char, i + 1);
+                push('string', end === -1 ? content.length : end + 1);
+            } else if (char === '>' || content.startsWith('/>', i)) {
+                element.inTag = false;
+                if (char === '>') element.depth++;
+                push('code', i + (char === '>' ? 1 : 2));
+                if (element.depth === 0) closeJsx();
+            } else if (content.startsWith('/*', i)) {
+                // Comments between attributes
+                push('comment', scanBlock(i, ['/*', '*/']));
+            } else if (content.startsWith('//', i)) {
+                const end = content.indexOf('\n', i);
+                push('comment', end === -1 ? content.length : end);
+            } else {
+                push('code', i + 1);
+            }
+        } else if (char === '<' && content[i + 1] === '/') {
+            const end = content.indexOf('>', i);
+            push('code', end === -1 ? content.length : end + 1);
+            element.depth--;
+            if (element.depth === 0) closeJsx();
+        } else {
+            if (char === '<') element.inTag = true;
+            push('code', i + 1);
+        }
+    };
+
+    // Lex a <script> or <style> body with its own syntax, up to its closing tag
+    const scanEmbedded = (tag: RegExpExecArray) => {
+        push('code', i + tag[0].length);
+        const close = content.slice(i).search(new RegExp(`</${tag[1]}`, 'i'));
+        const end = close === -1 ? content.length : i + close;
+        const embedded = tag[1].toLowerCase() === 'script' ? JAVASCRIPT : /\blang=["']?(?:scss|less)\b/i.test(tag[0]) ? SCSS : CSS;
+        for (const { type, text } of tokenize(content.slice(i, end), embedded)) add(type, text);
+        i = end;
+    };
+
+    const isWordStart = (index: number) => index === 0 || /\s/.test(content[index - 1]);
+    const isIdentifierStart = (index: number) => index === 0 || !/[\w$-]/.test(content[index - 1]);
+
+    // Match a sticky regex at i, only where an identifier could start
+    const matchAt = (pattern: RegExp): RegExpExecArray | null => {
+        if (!isIdentifierStart(i)) return null;
+        pattern.lastIndex = i;
+        return pattern.exec(content);
+    };
+
+    while (i < content.length) {
+        const char = content[i];
+
+        const context = jsx[jsx.length - 1];
+        if (context?.kind === 'element') {
+            scanJsxElement(context);
+            continue;
+        }
+        // Braces of template ${expressions} inside the JSX expression are counted by the template
+        if (context?.kind === 'expression' && context.templates === templateBraces.length && (char === '{' || char === '}')) {
+            if (char === '}' && context.braces === 0) {
+                // Back to the element holding the expression
+                jsx.pop();
+                push('code', i + 1);
+                continue;
+            }
+            context.braces += char === '{' ? 1 : -1;
+        }
+
+        if (syntax.embedded && char === '<') {
+            EMBEDDED_TAG.lastIndex = i;
+            const tag = EMBEDDED_TAG.exec(content);
+            if (tag) {
+                scanEmbedded(tag);
+                continue;
+            }
+        }
+
+        // Block comments
+        const block = syntax.block.find(([open]) => content.startsWith(open, i));
+        if (block) {
+            push('comment', scanBlock(i, block));
+            continue;
+        }
+
+        // Literals that would otherwise be read as code holding a comment marker
+        if (syntax.urls && (char === 'u' || char === 'U')) {
+            const url = matchAt(UNQUOTED_URL);
+            if (url) {
+                push('string', i + url[0].length);
+                lastSignificant = ')';
+                continue;
+            }
+        }
+        if (syntax.rawStrings && (char === 'r' || char === 'b')) {
+            const raw = matchAt(RAW_STRING);
+            if (raw) {
+                const close = `"${raw[1]}`;
+                const end = content.indexOf(close, i + raw[0].length);
+                push('string', end === -1 ? content.length : end + close.length);
+                lastSignificant = '"';
+                lastWord = '';
+                continue;
+            }
+        }
+
+        // Line comments, up to (not including) the newline
+        const line = syntax.line.find(marker => content.startsWith(marker, i));
+        if (line && (!syntax.lineAtWordStart || isWordStart(i)) && !(syntax.attributes && content.startsWith('#[', i))) {
+            const end = content.indexOf('\n', i);
+            push('comment', end === -1 ? content.length : end);
+            continue;
+        }
+
+        // Template literals and their ${expressions}
+        if (syntax.templates) {
+            if (char === '`' || (char === '}' && templateBraces.length > 0 && templateBraces[templateBraces.length - 1] === 0)) {
+                if (char === '}') templateBraces.pop();
+                const { end, expression } = scanTemplate(i + 1);
+                if (expression) templateBraces.push(0);
+                push('string', end);
+                lastSignificant = expression ? '{' : '`';
+                continue;
+            }
+            if (templateBraces.length > 0 && (char === '{' || char === '}')) {
+                templateBraces[templateBraces.length - 1] += char === '{' ? 1 : -1;
+            }
+        }
+
+        // Regex literals
+        if (syntax.regexes && char === '/' && expectsExpression()) {
+            const end = scanRegex(i);
+            // An unterminated regex was a division after all
+            push(end === i + 1 ? 'code' : 'string', end);
+            lastSignificant = '/';
+            lastWord = '';
+            continue;
+        }
+
+        // Rust char literals, anything else starting with ' is a lifetime
+        if (syntax.charLiterals && char === '\'') {
+            CHAR_LITERAL.lastIndex = i;
+            const match = CHAR_LITERAL.exec(content);
+            push(match ? 'string' : 'code', i + (match ? match[0].length : 1));
+            lastSignificant = '\'';
+            continue;
+        }
+
+        // Strings
+        const string = syntax.strings.find(({ open }) => content.startsWith(open, i));
+        if (string) {
+            push('string', scanString(i, string));
+            lastSignificant = string.close[0];
+            lastWord = '';
+            continue;
+        }
+
+        // JSX elements
+        if (syntax.jsx && char === '<' && expectsExpression()) {
+            JSX_TAG.lastIndex = i;
+            if (JSX_TAG.test(content)) {
+                jsx.push({ kind: 'element', depth: 0, inTag: true });
+                push('code', i + 1);
+                continue;
+            }
+        }
+
+        if (!/\s/.test(char)) {
+            lastWord = /[\w$]/.test(char) ? (/[\w$]/.test(content[i - 1] ?? '') ? lastWord : '') + char : '';
+            lastSignificant = char;
+        }
+        push('code', i + 1);
+    }
+
+    return segments;
+};
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { minifyContent } from './minify';
+
+describe('minifyContent', () => {
+    it('re-indents brace languages with one space per level', () => {
+        assert.equal(
+            minifyContent('function a() {\n    if (b) {\n\n        return `x\n    y`;\n    }\n}\n', 'a.js', 'compact'),
+            'function a() {\n if (b) {\n  return `x\n    y`;\n }\n}'
+        );
+    });
+
+    it('keeps the indentation of indentation-sensitive languages', () => {
+        const yaml = 'steps:\n  - name: checkout\n    uses: actions/checkout@v4\n\n  - run: npm test   \n';
+        assert.equal(
+            minifyContent(yaml, '.github/workflows/ci.yml', 'compact'),
+            'steps:\n  - name: checkout\n    uses: actions/checkout@v4\n  - run: npm test'
+        );
+        assert.equal(minifyContent('f = let x = 1\n        y = 2\n    in x + y\n', 'a.hs', 'compact'), 'f = let x = 1\n        y = 2\n    in x + y');
+        assert.equal(minifyContent('def f():\n\n    return (1,\n            2)\n', 'a.py', 'compact'), 'def f():\n    return (1,\n            2)');
+    });
+
+    it('leaves diffs unchanged', () => {
+        const diff = '@@ -1,3 +1,3 @@\n a\n \n-b\n+c\n';
+        assert.equal(minifyContent(diff, 'a.ts.diff', 'compact'), diff);
+    });
+
+    it('collapses JSON without parsing it', () => {
+        assert.equal(
+            minifyContent('{\n  "id": 12345678901234567890,\n  "name": "a  b",\n  "id": "\\u0041"\n}\n', 'a.json', 'aggressive'),
+            '{"id":12345678901234567890,"name":"a  b","id":"\\u0041"}'
+        );
+    });
+});
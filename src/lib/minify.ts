@@ -0,0 +1,140 @@
+import { getLanguage } from './format';
+import { Segment, getLanguageSyntax, tokenize } from './lexer';
+
+export type MinifyLevel = 'compact' | 'aggressive';
+
+export const MINIFY_LEVELS: { id: MinifyLevel; label: string }[] = [
+    { id: 'compact', label: 'Compact (safe for every language)' },
+    { id: 'aggressive', label: 'Aggressive (JS/TS/CSS/JSON only)' }
+];
+
+// Languages where collapsing whitespace inside lines can't change the meaning
+const AGGRESSIVE_LANGUAGES = ['javascript', 'jsx', 'typescript', 'tsx', 'css', 'json'];
+
+// Languages where indentation carries meaning for the reader rather than the parser, left alone
+const TEXT_LANGUAGES = ['markdown', 'mdx', 'text', 'csv', 'makefile'];
+
+// Languages whose blocks are delimited by braces, so indentation can be shortened to one space per level.
+// Everything else (Python, YAML, Haskell, Nim...) may depend on indentation or alignment and keeps its own.
+const REINDENT_LANGUAGES = [
+    'javascript', 'jsx', 'typescript', 'tsx', 'css', 'scss', 'less', 'json',
+    'c', 'cpp', 'csharp', 'java', 'kotlin', 'swift', 'go', 'rust', 'php'
+];
+
+interface Line {
+    text: string;
+    // The line starts inside a multi-line string or template literal, so it's kept verbatim
+    inLiteral: boolean;
+}
+
+export const isMinifyLevel = (value: unknown): value is MinifyLevel => {
+    return MINIFY_LEVELS.some(level => level.id === value);
+};
+
+const INDENT = /^[ \t]*/;
+
+// Indentation width with tabs to the next multiple of 8
+const indentWidth = (indent: string): number => {
+    let width = 0;
+    for (const char of indent) {
+        width = char === '\t' ? width + 8 - (width % 8) : width + 1;
+    }
+    return width;
+};
+
+const splitLines = (segments: Segment[]): Line[] => {
+    const lines: Line[] = [];
+    let current: Line = { text: '', inLiteral: false };
+
+    for (const segment of segments) {
+        segment.text.split('\n').forEach((part, index) => {
+            if (index > 0) {
+                lines.push(current);
+                current = { text: '', inLiteral: segment.type === 'string' };
+            }
+            current.text += part;
+        });
+    }
+    lines.push(current);
+
+    return lines;
+};
+
+// Drop blank lines and trailing whitespace, and in brace languages re-indent with one space per nesting level
+const compact = (content: string, path: string): string => {
+    const language = getLanguage(path);
+
+    // Every line of a diff is significant, down to its leading space
+    if (language === 'diff') return content;
+
+    if (TEXT_LANGUAGES.includes(language)) {
+        // Only collapse runs of blank lines, trailing spaces can be Markdown line breaks
+        return content.replace(/\n[ \t]*(?:\n[ \t]*)+\n/g, '\n\n').trim();
+    }
+
+    const syntax = getLanguageSyntax(path);
+    const segments = syntax ? tokenize(content, syntax) : [{ type: 'code' as const, text: content }];
+    const reindent = REINDENT_LANGUAGES.includes(language);
+    const output: string[] = [];
+    // Indentation widths of the enclosing blocks
+    const stack = [0];
+
+    for (const line of splitLines(segments)) {
+        if (line.inLiteral) {
+            output.push(line.text);
+            continue;
+        }
+
+        const text = line.text.trimEnd();
+        if (!text) continue;
+        if (!reindent) {
+            output.push(text);
+            continue;
+        }
+
+        const body = text.replace(INDENT, '');
+        const width = indentWidth(text.match(INDENT)?.[0] ?? '');
+        while (stack.length > 1 && stack[stack.length - 1] > width) stack.pop();
+        if (stack[stack.length - 1] < width) stack.push(width);
+
+        output.push(' '.repeat(stack.length - 1) + body);
+    }
+
+    return output.join('\n');
+};
+
+// Collapse whitespace in code only, never inside literals or comments
+const collapseCode = (segments: Segment[], collapse: (code: string) => string): string => {
+    return segments.map(segment => (segment.type === 'code' ? collapse(segment.text) : segment.text)).join('');
+};
+
+const aggressive = (content: string, path: string): string => {
+    const language = getLanguage(path);
+    const syntax = getLanguageSyntax(path);
+    if (!syntax) return compact(content, path);
+    const segments = tokenize(compact(content, path), syntax);
+
+    // JSON is never parsed and re-serialized, which would round large numbers and drop duplicate keys
+    if (language === 'json') {
+        return collapseCode(segments, code => code.replace(/\s+/g, ''));
+    }
+
+    if (language === 'css') {
+        return collapseCode(segments, code => code.replace(/\s+/g, ' ').replace(/\s*([{};,])\s*/g, '$1')).trim();
+    }
+
+    // JavaScript relies on newlines for automatic semicolon insertion, so they're kept.
+    // Lines starting inside template literals keep their indentation.
+    const lines = splitLines(segments);
+    return collapseCode(segments, code => code.replace(/[ \t]+/g, ' '))
+        .split('\n')
+        .map((line, index) => (lines[index]?.inLiteral ? line : line.trim()))
+        .join('\n');
+};
+
+export const minifyContent = (content: string, path: string, level: MinifyLevel): string => {
+    if (level === 'aggressive' && AGGRESSIVE_LANGUAGES.includes(getLanguage(path))) {
+        return aggressive(content, path);
+    }
+    return compact(content, path);
+};
@@ -0,0 +1,99 @@
+import { FileTreeNode, buildFileTree } from './tree';
+import { SkipReason, SkippedFile } from './pack';
+
+export interface OverviewFile {
+    path: string;
+    size: number;
+    tokens: number;
+    omittedLines?: number;
+}
+
+export interface OverviewOptions {
+    // List files left out by the token limit as a count only, see `packCandidates`
+    compact?: boolean;
+}
+
+// Skipped files listed per reason, the rest are counted
+const MAX_LISTED_SKIPPED = 20;
+
+const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+    pattern: 'excluded by pattern',
+    ignored: 'ignored by .gitignore / .sacignore',
+    type: 'file type not allowed',
+    size: 'larger than 10MB',
+    budget: 'token limit',
+    manual: 'deselected',
+    error: 'could not be read'
+};
+
+const formatSize = (bytes: number): string => `${(bytes / 1024).toFixed(1)}KB`;
+
+// Two spaces per level rather than box-drawing characters, which cost several tokens per line
+const directoryLine = (name: string, depth: number) => `${'  '.repeat(depth)}${name}/`;
+
+const fileLine = (name: string, depth: number, { size, tokens, omittedLines }: OverviewFile) => {
+    const shortened = omittedLines ? ', shortened' : '';
+    return `${'  '.repeat(depth)}${name} (${formatSize(size)}, ${tokens.toLocaleString('en-US')} tokens${shortened})`;
+};
+
+const renderTree = (node: FileTreeNode<OverviewFile>, depth: number, lines: string[]) => {
+    for (const child of node.children) {
+        if (child.file) {
+            lines.push(fileLine(child.name, depth, child.file));
+        } else {
+            lines.push(directoryLine(child.name, depth));
+            renderTree(child, depth + 1, lines);
+        }
+    }
+};
+
+// Lines a file adds to the overview tree: its own, and those of its directories not in `listed` yet.
+// Lets the token budget account for the overview file by file, see `packCandidates`.
+export const overviewTreeLines = (file: OverviewFile, listed: Set<string>): string[] => {
+    const segments = file.path.split('/');
+    const lines: string[] = [];
+
+    segments.slice(0, -1).forEach((name, depth) => {
+        const path = segments.slice(0, depth + 1).join('/');
+        if (!listed.has(path)) lines.push(directoryLine(name, depth));
+    });
+    lines.push(fileLine(segments[segments.length - 1], segments.length - 1, file));
+
+    return lines;
+};
+
+// Mark the directories of a file as listed in the overview tree
+export const listDirectories = (path: string, listed: Set<string>) => {
+    const segments = path.split('/');
+    segments.slice(0, -1).forEach((_, depth) => listed.add(segments.slice(0, depth + 1).join('/')));
+};
+
+// Plain text overview of the packed files as a directory tree annotated with size and tokens,
+// followed by the skipped files grouped by reason
+export const renderOverview = (
+    files: OverviewFile[],
+    skipped: SkippedFile[],
+    options: OverviewOptions = {}
+): string => {
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    const totalTokens = files.reduce((sum, file) => sum + file.tokens, 0);
+    const lines = [`${files.length} files, ${formatSize(totalSize)}, ${totalTokens.toLocaleString('en-US')} tokens`];
+    renderTree(buildFileTree(files), 0, lines);
+
+    const byReason = new Map<SkipReason, string[]>();
+    for (const { path, reason } of skipped) {
+        byReason.set(reason, [...(byReason.get(reason) ?? []), path]);
+    }
+
+    if (byReason.size > 0) {
+        lines.push('', 'Skipped files:');
+        for (const [reason, paths] of byReason) {
+            const listed = options.compact && reason === 'budget' ? [] : paths.slice(0, MAX_LISTED_SKIPPED);
+            const more = paths.length - listed.length;
+            if (more > 0) listed.push(listed.length > 0 ? `and ${more} more` : `${more} files`);
+            lines.push(`  ${SKIP_REASON_LABELS[reason]}: ${listed.join(', ')}`);
+        }
+    }
+
+    return lines.join('\n');
+};
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_SETTINGS, FileSource, SourceFile, isInSkippedDirectory, listCandidates, packFiles } from './index';
+
+// Source over in-memory files, walked like a directory
+const memorySource = (files: Record<string, string>): FileSource => ({
+    local: true,
+    list: async (skipDirectory) => Object.entries(files)
+        .filter(([path]) => !isInSkippedDirectory(path, skipDirectory))
+        .map(([path, content]): SourceFile => ({ path, size: content.length, read: async () => content }))
+});
+
+describe('packFiles', () => {
+    it('packs allowed files sorted by path, with their headers', async () => {
+        const result = await packFiles(memorySource({
+            'src/b.ts': 'export const b = 2;\n',
+            'src/a.ts': 'export const a = 1;\n'
+        }), DEFAULT_SETTINGS);
+
+        assert.deepEqual(result.files.map(({ path }) => path), ['src/a.ts', 'src/b.ts']);
+        assert.equal(result.fileCount, 2);
+        assert.ok(result.content.indexOf('src/a.ts') < result.content.indexOf('src/b.ts'));
+        assert.ok(result.content.includes('export const a = 1;'));
+        assert.ok(result.tokenCount > 0);
+        assert.equal(result.truncated, false);
+    });
+
+    it('skips default directories, other types and ignored files', async () => {
+        const source = memorySource({
+            '.gitignore': 'secret.txt\n',
+            'index.js': 'console.log(1);\n',
+            'node_modules/pkg/index.js': 'module.exports = 1;\n',
+            'image.png': 'png',
+            'secret.txt': 'hidden'
+        });
+        const candidates = await listCandidates(source, DEFAULT_SETTINGS);
+        const reasons = Object.fromEntries(candidates.map(({ path, skipReason }) => [path, skipReason]));
+
+        assert.equal(reasons['index.js'], undefined);
+        assert.equal(reasons['image.png'], 'type');
+        assert.equal(reasons['secret.txt'], 'ignored');
+        assert.ok(!('node_modules/pkg/index.js' in reasons));
+
+        const result = await packFiles(source, DEFAULT_SETTINGS);
+        assert.deepEqual(result.files.map(({ path }) => path), ['index.js']);
+    });
+
+    it('removes comments without touching strings', async () => {
+        const result = await packFiles(memorySource({
+            'a.ts': 'const url = "http://example.com"; // comment\n'
+        }), { ...DEFAULT_SETTINGS, removeComments: true });
+
+        assert.ok(result.content.includes('"http://example.com"'));
+        assert.ok(!result.content.includes('// comment'));
+    });
+
+    it('stays within the token limit', async () => {
+        const files = Object.fromEntries(Array.from({ length: 20 }, (_, i) => [
+            `file${i}.ts`,
+            `export const value${i} = [${Array.from({ length: 100 }, (_, j) => j).join(', ')}];\n`
+        ]));
+        const result = await packFiles(memorySource(files), { ...DEFAULT_SETTINGS, tokenLimit: 1000 });
+
+        assert.ok(result.truncated);
+        assert.ok(result.tokenCount <= 1000);
+        assert.ok(result.skipped.some(({ reason }) => reason === 'budget'));
+    });
+
+    it('still packs small files once the budget is too low to cut a large one', async () => {
+        const large = `export const large = [${Array.from({ length: 2000 }, (_, i) => i).join(', ')}];\n`;
+        const result = await packFiles(memorySource({
+            'index.ts': 'export const small = 1;\n',
+            'src/large.ts': large,
+            'src/small.ts': 'export const small = 2;\n'
+        }), { ...DEFAULT_SETTINGS, tokenLimit: 100 });
+
+        assert.deepEqual(result.files.map(({ path }) => path), ['index.ts', 'src/small.ts']);
+        assert.deepEqual(result.skipped, [{ path: 'src/large.ts', reason: 'budget' }]);
+    });
+});
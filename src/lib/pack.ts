@@ -0,0 +1,369 @@
+import { AdvancedSettings, MAX_FILE_SIZE } from './settings';
+import { MIN_TRUNCATED_TOKENS, rankFiles, truncateHeadTail } from './budget';
+import { ContextPart, splitIntoParts } from './chunk';
+import { RateLimitError } from './ratelimit';
+import { Redaction, redactSecrets } from './secrets';
+import { isAllowedFileType, shouldSkipEntry } from './filters';
+import { formatFile, formatHeader, formatOverview, renderFiles } from './format';
+import { GITIGNORE_FILE, IgnoreFile, SACIGNORE_FILE, createIgnoreMatcher, isIgnoreFile } from './ignore';
+import { listDirectories, overviewTreeLines, renderOverview } from './overview';
+import { transformContent } from './transform';
+import { loadTokenizer } from './tokens';
+
+// A single file exposed by an input. Contents are only read once the file passes the filters.
+export interface SourceFile {
+    path: string;
+    size?: number;
+    // Changed file a diff or base version was made from, whose path filters and ignore rules are checked on
+    derivedFrom?: string;
+    read: () => Promise<string>;
+}
+
+// Anything that can enumerate files: a dropped folder, a GitHub tree, a local directory...
+export interface FileSource {
+    // Whether reading a file is cheap (local disk) or costs a network request
+    local: boolean;
+    // Directories for which `skipDirectory` returns true should not be walked at all
+    list: (skipDirectory: (path: string) => boolean) => Promise<SourceFile[]>;
+    // Describes the listed files, e.g. the pull request they were changed in. Set once `list` resolved.
+    header?: string;
+}
+
+export type SkipReason = 'pattern' | 'ignored' | 'type' | 'size' | 'budget' | 'manual' | 'error';
+
+export interface FileCandidate extends SourceFile {
+    skipReason?: SkipReason;
+}
+
+export interface SkippedFile {
+    path: string;
+    reason: SkipReason;
+}
+
+export interface PackProgress {
+    processed: number;
+    total: number;
+    // Size and tokens of the files packed so far
+    bytes?: number;
+    tokens?: number;
+}
+
+export interface MeasureOptions {
+    signal?: AbortSignal;
+    // Called with token counts by path, in batches
+    onMeasured: (tokens: Record<string, number>) => void;
+}
+
+export interface PackOptions {
+    signal?: AbortSignal;
+    onProgress?: (progress: PackProgress) => void;
+    // Paths to pack regardless of their skip reason, as picked in the file tree
+    selected?: Set<string>;
+    // Placed before the overview, see `FileSource.header`
+    header?: string;
+}
+
+export interface PackedFile {
+    path: string;
+    size: number;
+    tokens: number;
+    content: string;
+    // Lines cut from the middle of the file to fit the token limit
+    omittedLines?: number;
+}
+
+export interface PackResult {
+    content: string;
+    // The same content split by `partSize`, empty when it fits in a single part
+    parts: ContextPart[];
+    files: PackedFile[];
+    fileCount: number;
+    totalSize: number;
+    tokenCount: number;
+    // Whether files were left out or cut to fit the token limit
+    truncated: boolean;
+    skipped: SkippedFile[];
+    // Secrets replaced in the packed files, by path and line
+    redactions: Redaction[];
+}
+
+// Normalize path for display
+export const normalizePath = (path: string): string => path.replace(/^\/+/, '').replace(/\/+/g, '/');
+
+// Directories matching the default patterns (node_modules, .git...) are never walked
+export const skipDefaultDirectory = (path: string): boolean => {
+    return shouldSkipEntry(normalizePath(path), { excludePatterns: [] });
+};
+
+// Whether a listed file is inside a directory for which `skipDirectory` returns true, for sources
+// listing every file at once (archives, file lists) rather than walking directories
+export const isInSkippedDirectory = (path: string, skipDirectory: (path: string) => boolean): boolean => {
+    const segments = path.split('/').slice(0, -1);
+    return segments.some((_, i) => skipDirectory(segments.slice(0, i + 1).join('/')));
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) {
+        throw new Error('Operation cancelled');
+    }
+};
+
+// Read every .gitignore (when enabled) and .sacignore among the listed files
+const readIgnoreFiles = async (files: SourceFile[], settings: AdvancedSettings): Promise<IgnoreFile[]> => {
+    const names = settings.useGitignore ? [GITIGNORE_FILE, SACIGNORE_FILE] : [SACIGNORE_FILE];
+    const ignoreFiles: IgnoreFile[] = [];
+
+    for (const file of files) {
+        // Only the directory is checked, `.gitignore` itself would match the default `.git` pattern
+        const directory = file.path.slice(0, Math.max(file.path.lastIndexOf('/'), 0));
+        if (!isIgnoreFile(file.path, names) || shouldSkipEntry(directory, settings)) continue;
+        try {
+            ignoreFiles.push({ path: file.path, content: await file.read() });
+        } catch (error) {
+            console.warn(`Error reading ${file.path}:`, error);
+        }
+    }
+
+    return ignoreFiles;
+};
+
+// Prepare a file the same way packing does, returning the text that would be added to the output.
+// Secrets are redacted first, so their lines are the lines of the original file.
+const renderFile = (
+    path: string,
+    raw: string,
+    settings: AdvancedSettings
+): { content: string; block: string; redactions: Redaction[] } => {
+    const redacted = settings.redactSecrets ? redactSecrets(raw, path) : { content: raw, redactions: [] };
+    const content = transformContent(redacted.content, settings, path);
+    return { content, block: formatFile({ path, content }, settings.outputFormat), redactions: redacted.redactions };
+};
+
+// List every file of a source, sorted and annotated with the reason it would be skipped (if any)
+export const listCandidates = async (
+    source: FileSource,
+    settings: AdvancedSettings,
+    options: Pick<PackOptions, 'signal'> = {}
+): Promise<FileCandidate[]> => {
+    const { signal } = options;
+
+    // Everything but default directories is listed so user exclusions can still be overridden file by file
+    const listed = await source.list(skipDefaultDirectory);
+    throwIfAborted(signal);
+
+    // Sort so every input emits files in the same order regardless of how it was walked
+    const sorted = listed
+        .map(file => ({ ...file, path: normalizePath(file.path) }))
+        .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+    const isIgnored = createIgnoreMatcher(await readIgnoreFiles(sorted, settings));
+    throwIfAborted(signal);
+
+    const getSkipReason = ({ path: listedPath, derivedFrom, size }: SourceFile): SkipReason | undefined => {
+        const path = derivedFrom ?? listedPath;
+        if (shouldSkipEntry(path, settings)) return 'pattern';
+        if (isIgnored(path)) return 'ignored';
+        if (!isAllowedFileType(path, settings)) return 'type';
+        if (size !== undefined && size > MAX_FILE_SIZE) return 'size';
+        return undefined;
+    };
+
+    return sorted.map(file => ({ ...file, skipReason: getSkipReason(file) }));
+};
+
+// Token cost of a single file as it would appear in the output
+export const measureFile = async (file: SourceFile, settings: AdvancedSettings): Promise<number> => {
+    const tokenizer = await loadTokenizer(settings.tokenizer);
+    return tokenizer.count(renderFile(file.path, await file.read(), settings).block);
+};
+
+const comparePaths = (a: { path: string }, b: { path: string }) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+
+// Token cost of every candidate, except the ones too large to read
+export const measureCandidates = async (
+    candidates: FileCandidate[],
+    settings: AdvancedSettings,
+    options: MeasureOptions
+): Promise<void> => {
+    const { signal, onMeasured } = options;
+    let batch: Record<string, number> = {};
+
+    for (const [index, candidate] of candidates.entries()) {
+        throwIfAborted(signal);
+        if (candidate.skipReason === 'size') continue;
+
+        try {
+            batch[candidate.path] = await measureFile(candidate, settings);
+        } catch (error) {
+            console.warn(`Error measuring ${candidate.path}:`, error);
+        }
+
+        // Flush in batches so large trees don't re-render on every file
+        if (index % 50 === 49) {
+            onMeasured(batch);
+            batch = {};
+        }
+    }
+    throwIfAborted(signal);
+    onMeasured(batch);
+};
+
+// Read, transform and render candidates. Without `selected`, every candidate that has no skip reason is packed.
+// With a token limit, files are read in priority order (see `rankFiles`): the ones that don't fit
+// have their head and tail kept if enough budget is left, or are skipped. The output stays sorted by path.
+//
+// The overview's tree line of each file is budgeted along with the file, with the token limit standing
+// in for its token count. Files left out by the limit are counted in the overview, not listed, if listing
+// them would go over.
+// The header, if any, is counted before every file.
+export const packCandidates = async (
+    candidates: FileCandidate[],
+    settings: AdvancedSettings,
+    options: PackOptions = {}
+): Promise<PackResult> => {
+    const { signal, onProgress, selected, header } = options;
+    const skipped: SkippedFile[] = [];
+    const tokenizer = await loadTokenizer(settings.tokenizer);
+
+    const files = candidates.filter(({ path, size, skipReason }) => {
+        const include = selected ? selected.has(path) : !skipReason;
+        if (!include) {
+            if (skipReason === 'size') {
+                console.warn(`Skipping ${path}: File too large (${((size ?? 0) / 1024 / 1024).toFixed(1)}MB)`);
+            }
+            skipped.push({ path, reason: skipReason ?? 'manual' });
+        }
+        return include;
+    });
+
+    onProgress?.({ processed: 0, total: files.length });
+
+    const limited = settings.tokenLimit > 0;
+    const headerTokens = header === undefined ? 0 : tokenizer.count(formatHeader(header, settings.outputFormat));
+    const budgetOverview = settings.includeOverview && limited;
+    // Overview tokens for the files packed so far, starting with the header and the skipped files
+    // (plus a placeholder for those the limit will leave out)
+    let overviewTokens = budgetOverview
+        ? tokenizer.count(formatOverview(renderOverview([], [...skipped, { path: '', reason: 'budget' }], { compact: true }), settings.outputFormat))
+        : 0;
+    const listedDirectories = new Set<string>();
+    const ordered = limited ? rankFiles(files, settings.priorityRules) : files;
+    const packed: PackedFile[] = [];
+    const redactions: Redaction[] = [];
+    let totalSize = 0;
+    let tokenCount = 0;
+    let truncated = false;
+
+    for (const [index, file] of ordered.entries()) {
+        throwIfAborted(signal);
+        onProgress?.({ processed: index, total: files.length, bytes: totalSize, tokens: tokenCount });
+        const { path } = file;
+        let remaining = settings.tokenLimit - headerTokens - overviewTokens - tokenCount;
+        // Tokens of the file's block without its content
+        const overhead = limited ? tokenizer.count(formatFile({ path, content: '' }, settings.outputFormat)) : 0;
+
+        // Once not even an empty block fits, lower priority files aren't even read
+        if (limited && remaining <= overhead) {
+            truncated = true;
+            skipped.push({ path, reason: 'budget' });
+            continue;
+        }
+
+        let raw: string;
+        try {
+            raw = await file.read();
+        } catch (error) {
+            throwIfAborted(signal);
+            // Every remaining read would fail too, stop so the user can resume after the reset
+            if (error instanceof RateLimitError) throw error;
+            console.warn(`Error processing ${path}:`, error);
+            skipped.push({ path, reason: 'error' });
+            continue;
+        }
+
+        // Sources that can't list sizes are only checked once the file is read
+        if (file.size === undefined && raw.length > MAX_FILE_SIZE) {
+            console.warn(`Skipping ${path}: File too large (${(raw.length / 1024 / 1024).toFixed(1)}MB)`);
+            skipped.push({ path, reason: 'size' });
+            continue;
+        }
+
+        // Token counts are at most the limit, so it stands in for the count the overview will show
+        const treeTokens = budgetOverview
+            ? tokenizer.count(`${overviewTreeLines({ path, size: file.size ?? raw.length, tokens: settings.tokenLimit, omittedLines: 1 }, listedDirectories).join('\n')}\n`)
+            : 0;
+        remaining -= treeTokens;
+
+        // Check token limit, counting the file as it will appear in the output
+        const rendered = renderFile(path, raw, settings);
+        let { content, block } = rendered;
+        let contentTokens = tokenizer.count(block);
+        let omittedLines: number | undefined;
+
+        if (limited && contentTokens > remaining) {
+            truncated = true;
+            // Too little budget is left for a useful head and tail, later files may still fit whole
+            const cut = remaining - overhead >= MIN_TRUNCATED_TOKENS
+                ? truncateHeadTail(content, remaining - overhead, tokenizer)
+                : null;
+            const cutBlock = cut && formatFile({ path, content: cut.content }, settings.outputFormat);
+            const cutTokens = cutBlock ? tokenizer.count(cutBlock) : 0;
+
+            if (!cut || !cutBlock || cutTokens > remaining) {
+                console.warn(`Token limit (${settings.tokenLimit}) reached, skipping ${path}`);
+                skipped.push({ path, reason: 'budget' });
+                continue;
+            }
+            ({ content, omittedLines } = cut);
+            block = cutBlock;
+            contentTokens = cutTokens;
+        }
+
+        const size = file.size ?? raw.length;
+        packed.push({ path, size, tokens: contentTokens, content, ...(omittedLines && { omittedLines }) });
+        redactions.push(...rendered.redactions);
+        overviewTokens += treeTokens;
+        listDirectories(path, listedDirectories);
+        totalSize += size;
+        tokenCount += contentTokens;
+    }
+
+    onProgress?.({ processed: files.length, total: files.length, bytes: totalSize, tokens: tokenCount });
+
+    packed.sort(comparePaths);
+    skipped.sort(comparePaths);
+    redactions.sort((a, b) => comparePaths(a, b) || a.line - b.line);
+
+    tokenCount += headerTokens;
+    let overview: string | undefined;
+    if (settings.includeOverview) {
+        overview = renderOverview(packed, skipped);
+        let tokens = tokenizer.count(formatOverview(overview, settings.outputFormat));
+        if (limited && tokenCount + tokens > settings.tokenLimit) {
+            overview = renderOverview(packed, skipped, { compact: true });
+            tokens = tokenizer.count(formatOverview(overview, settings.outputFormat));
+        }
+        tokenCount += tokens;
+    }
+
+    return {
+        content: renderFiles(packed, settings.outputFormat, { header, overview }),
+        parts: splitIntoParts(packed, settings, tokenizer, { header, overview }),
+        files: packed,
+        fileCount: packed.length,
+        totalSize,
+        tokenCount,
+        truncated,
+        skipped,
+        redactions
+    };
+};
+
+export const packFiles = async (
+    source: FileSource,
+    settings: AdvancedSettings,
+    options: PackOptions = {}
+): Promise<PackResult> => {
+    const candidates = await listCandidates(source, settings, options);
+    return packCandidates(candidates, settings, { header: source.header, ...options });
+};
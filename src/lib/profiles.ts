@@ -0,0 +1,92 @@
+import { AdvancedSettings, DEFAULT_SETTINGS, isRecord, normalizeSettings } from './settings';
+import { RepoInfo } from './providers/types';
+
+// Settings that belong to the user rather than to a way of packing: never saved in profiles or exported
+export const PERSONAL_SETTINGS = ['githubToken', 'gitlabToken', 'bitbucketToken', 'giteaToken', 'tokenStorage', 'githubUrl'] as const;
+
+export type ProfileSettings = Omit<AdvancedSettings, typeof PERSONAL_SETTINGS[number]>;
+
+export interface SettingsProfile {
+    id: string;
+    name: string;
+    settings: ProfileSettings;
+    // Repositories the profile is switched to automatically: `owner/repo`, a repository name,
+    // `owner/*`, or a URL prefix
+    repos: string[];
+}
+
+export const PROFILES_STORAGE_KEY = 'sac_profiles';
+
+// Marks exported files, so importing something else fails clearly
+const PROFILE_FORMAT = 'sac-profile';
+
+export const createProfileId = (): string => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const toProfileSettings = (settings: AdvancedSettings): ProfileSettings => {
+    const profileSettings: Partial<AdvancedSettings> = { ...settings };
+    PERSONAL_SETTINGS.forEach(key => delete profileSettings[key]);
+    return profileSettings as ProfileSettings;
+};
+
+// Coerce a stored or imported profile, filling settings missing from older versions with defaults
+export const normalizeProfile = (parsed: unknown): SettingsProfile | null => {
+    if (!isRecord(parsed) || typeof parsed.name !== 'string' || !parsed.name.trim()) return null;
+
+    return {
+        id: typeof parsed.id === 'string' && parsed.id ? parsed.id : createProfileId(),
+        name: parsed.name.trim(),
+        settings: toProfileSettings(normalizeSettings({ ...DEFAULT_SETTINGS, ...(isRecord(parsed.settings) ? parsed.settings : {}) })),
+        repos: Array.isArray(parsed.repos)
+            ? parsed.repos.filter((repo): repo is string => typeof repo === 'string' && repo.trim() !== '').map(repo => repo.trim())
+            : []
+    };
+};
+
+// JSON file shared between users. The id is left out, it's local to each browser.
+export const exportProfile = ({ name, repos, settings }: SettingsProfile): string => {
+    return JSON.stringify({ format: PROFILE_FORMAT, name, repos, settings }, null, 2);
+};
+
+export const importProfile = (json: string): SettingsProfile => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('The profile file is not valid JSON');
+    }
+
+    const profile = isExportedProfile(parsed) ? normalizeProfile({ ...parsed, id: undefined }) : null;
+    if (!profile) {
+        throw new Error('Not a SAC settings profile');
+    }
+    return profile;
+};
+
+// Whether an exported profile file was passed where settings are expected (CLI `--settings`)
+export const isExportedProfile = (parsed: unknown): parsed is Record<string, unknown> => (
+    isRecord(parsed) && parsed.format === PROFILE_FORMAT
+);
+
+const globToRegExp = (pattern: string): RegExp => {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`, 'i');
+};
+
+const matchesRepo = (pattern: string, url: string, info: RepoInfo | null): boolean => {
+    if (pattern.includes('://')) {
+        return url.toLowerCase().startsWith(pattern.replace(/\/+$/, '').toLowerCase());
+    }
+    if (!info) return false;
+
+    const regex = globToRegExp(pattern.replace(/^\/+|\/+$/g, ''));
+    return regex.test(`${info.owner}/${info.repo}`) || (!pattern.includes('/') && regex.test(info.repo));
+};
+
+// First profile attached to a repository URL
+export const findProfileForRepo = (
+    profiles: SettingsProfile[],
+    url: string,
+    info: RepoInfo | null
+): SettingsProfile | null => {
+    return profiles.find(profile => profile.repos.some(pattern => matchesRepo(pattern, url.trim(), info))) ?? null;
+};
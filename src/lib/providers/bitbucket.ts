@@ -0,0 +1,63 @@
+import { RepoProvider, TreeFile } from './types';
+import { checkResponse, encodePath, fetchJson, readText } from './common';
+
+interface BitbucketEntry {
+    type: 'commit_file' | 'commit_directory';
+    path: string;
+    size?: number;
+}
+
+interface BitbucketPage {
+    values: BitbucketEntry[];
+    next?: string;
+}
+
+const API = 'https://api.bitbucket.org/2.0';
+
+// bitbucket.org/<workspace>/<repo>[/src/<branch>[/<path>]]. Bitbucket Cloud has no
+// archive endpoint the browser can reach, so files are always listed and read one by one.
+export const bitbucketProvider: RepoProvider = {
+    id: 'bitbucket',
+    label: 'Bitbucket',
+    tokenSetting: 'bitbucketToken',
+    hosts: () => ['bitbucket.org'],
+    parsePath: ([owner, repo, kind, branch, ...path]) => {
+        if (!owner || !repo || (kind && (kind !== 'src' || !branch))) return null;
+        return { owner, repo: repo.replace(/\.git$/, ''), branch: branch || null, path: path.join('/') };
+    },
+    apiUrl: () => API,
+    // App passwords are given as `username:app_password`, access tokens as is
+    authHeaders: token => ({ Authorization: token.includes(':') ? `Basic ${btoa(token)}` : `Bearer ${token}` }),
+    tokenUrl: () => 'https://bitbucket.org/account/settings/app-passwords/',
+    listTree: async ({ info, api, request }, skipDirectory) => {
+        const repoApi = `${api}/repositories/${info.owner}/${info.repo}`;
+        const ref = info.branch ?? (await fetchJson<{ mainbranch: { name: string } }>(request, repoApi, 'fetch repository')).mainbranch.name;
+        const files: TreeFile[] = [];
+
+        // Only directories leading to or inside the requested path are walked, ancestors may hold ignore files
+        const isWanted = (directory: string) => !info.path || directory === info.path
+            || info.path.startsWith(`${directory}/`) || directory.startsWith(`${info.path}/`);
+
+        // The src endpoint lists one directory at a time, in pages
+        const walk = async (directory: string) => {
+            for (let url: string | undefined = `${repoApi}/src/${encodePath(ref)}/${encodePath(directory)}?pagelen=100`; url;) {
+                const page: BitbucketPage = await fetchJson(request, url, 'fetch repository contents');
+                for (const entry of page.values) {
+                    if (entry.type === 'commit_file') {
+                        files.push({ path: entry.path, size: entry.size, id: `${ref}/${entry.path}` });
+                    } else if (isWanted(entry.path) && !skipDirectory(entry.path)) {
+                        await walk(entry.path);
+                    }
+                }
+                url = page.next;
+            }
+        };
+        await walk('');
+
+        return files;
+    },
+    readFile: async ({ info, api, request }, file) => {
+        const response = await request(`${api}/repositories/${info.owner}/${info.repo}/src/${encodePath(file.id)}`);
+        return readText(checkResponse(response, `fetch ${file.path}`));
+    }
+};
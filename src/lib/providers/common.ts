@@ -0,0 +1,44 @@
+import { ArchiveEntry, gunzip, parseTar, stripSingleRoot } from '../archive';
+
+// Decode like `File.text()` (UTF-8, BOM stripped) so repository and dropped files match
+const decoder = new TextDecoder();
+
+export const decodeBase64 = (content: string): string => {
+    return decoder.decode(Uint8Array.from(atob(content.replace(/\n/g, '')), char => char.charCodeAt(0)));
+};
+
+export const readText = async (response: Response): Promise<string> => {
+    return decoder.decode(await response.arrayBuffer());
+};
+
+// Throw the usual errors for a failed repository request
+export const checkResponse = (response: Response, action: string): Response => {
+    if (response.status === 404) throw new Error('Repository not found');
+    if (response.status === 401 || response.status === 403) {
+        throw new Error(`Access denied while trying to ${action}, check the access token`);
+    }
+    if (!response.ok) throw new Error(`Failed to ${action} (${response.status})`);
+    return response;
+};
+
+export const fetchJson = async <T>(request: (url: string) => Promise<Response>, url: string, action: string): Promise<T> => {
+    return (await checkResponse(await request(url), action).json()) as T;
+};
+
+// Download a .tar.gz archive and unpack it without its top-level folder
+export const fetchTarball = async (request: (url: string) => Promise<Response>, url: string): Promise<ArchiveEntry[]> => {
+    const response = checkResponse(await request(url), 'download repository');
+    if (!response.body) throw new Error('Failed to download repository');
+    return stripSingleRoot(parseTar(await gunzip(response.body)));
+};
+
+export const hostOf = (url: string): string | null => {
+    try {
+        return new URL(url).host.toLowerCase();
+    } catch {
+        return null;
+    }
+};
+
+// Encode each segment of a file path or branch name, keeping the slashes
+export const encodePath = (path: string): string => path.split('/').map(encodeURIComponent).join('/');
@@ -0,0 +1,71 @@
+import { RepoProvider, TreeFile } from './types';
+import { decodeBase64, encodePath, fetchJson, fetchTarball, hostOf } from './common';
+
+interface GiteaTreeItem {
+    path: string;
+    type: 'blob' | 'tree' | 'commit';
+    sha: string;
+    size?: number;
+}
+
+interface GiteaTree {
+    tree: GiteaTreeItem[];
+    truncated: boolean;
+    page: number;
+}
+
+const PAGE_SIZE = 1000;
+
+const getDefaultBranch = async ({ info, api, request }: Parameters<RepoProvider['listTree']>[0]) => {
+    const repository = await fetchJson<{ default_branch: string }>(request, `${api}/repos/${info.owner}/${info.repo}`, 'fetch repository');
+    return repository.default_branch;
+};
+
+// gitea.com/<owner>/<repo>[/src/branch/<branch>[/<path>]], also Codeberg and other Forgejo instances
+export const giteaProvider: RepoProvider = {
+    id: 'gitea',
+    label: 'Gitea',
+    tokenSetting: 'giteaToken',
+    blobIds: true,
+    hosts: ({ giteaUrl }) => ['gitea.com', 'codeberg.org', ...(giteaUrl ? [hostOf(giteaUrl) ?? ''] : [])],
+    parsePath: ([owner, repo, kind, refType, branch, ...path]) => {
+        if (!owner || !repo) return null;
+        if (kind && (kind !== 'src' || refType !== 'branch' || !branch)) return null;
+        return { owner, repo: repo.replace(/\.git$/, ''), branch: branch || null, path: path.join('/') };
+    },
+    apiUrl: ({ origin }) => `${origin}/api/v1`,
+    authHeaders: token => ({ Authorization: `token ${token}` }),
+    tokenUrl: origin => `${origin}/user/settings/applications`,
+    downloadArchive: async (context) => {
+        const { info, api, request } = context;
+        // The archive endpoint needs an explicit ref
+        const ref = info.branch ?? await getDefaultBranch(context);
+        return fetchTarball(request, `${api}/repos/${info.owner}/${info.repo}/archive/${encodePath(ref)}.tar.gz`);
+    },
+    listTree: async (context) => {
+        const { info, api, request } = context;
+        const ref = info.branch ?? await getDefaultBranch(context);
+        const files: TreeFile[] = [];
+
+        // Large trees come in pages, `truncated` is set until the last one
+        for (let page = 1; ; page++) {
+            const { tree, truncated } = await fetchJson<GiteaTree>(
+                request,
+                `${api}/repos/${info.owner}/${info.repo}/git/trees/${encodePath(ref)}?recursive=true&per_page=${PAGE_SIZE}&page=${page}`,
+                'fetch repository contents'
+            );
+            files.push(...tree.filter(item => item.type === 'blob').map(item => ({ path: item.path, size: item.size, id: item.sha })));
+            if (!truncated || tree.length === 0) break;
+        }
+
+        return files;
+    },
+    readFile: async ({ info, api, request }, file) => {
+        const { content } = await fetchJson<{ content: string }>(
+            request,
+            `${api}/repos/${info.owner}/${info.repo}/git/blobs/${file.id}`,
+            `fetch ${file.path}`
+        );
+        return decodeBase64(content);
+    }
+};
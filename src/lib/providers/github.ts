@@ -0,0 +1,229 @@
+import { ChangeStatus, ChangedFile, RepoChange, RepoProvider, TreeFile } from './types';
+import { decodeBase64, encodePath, fetchJson, fetchTarball, hostOf } from './common';
+
+interface GitHubTreeItem {
+    path: string;
+    type: 'blob' | 'tree' | 'commit';
+    sha: string;
+    size?: number;
+}
+
+interface GitHubTree {
+    tree: GitHubTreeItem[];
+    // The recursive listing went over the API's limits and misses entries
+    truncated: boolean;
+}
+
+interface GitHubChangedFile {
+    filename: string;
+    previous_filename?: string;
+    status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+    additions: number;
+    deletions: number;
+    sha: string;
+    patch?: string;
+}
+
+interface GitHubCommit {
+    sha: string;
+    commit: { message: string };
+    parents: { sha: string }[];
+    files?: GitHubChangedFile[];
+}
+
+const PUBLIC_API = 'https://api.github.com';
+
+// Pull request files are listed 100 per page, up to the 3000 the API returns
+const FILES_PER_PAGE = 100;
+const MAX_FILE_PAGES = 30;
+
+// pull/<number>[/files], commit/<sha>, compare/<base>...<head>
+const parseChange = (kind: string | undefined, [first, ...rest]: string[]): RepoChange | null => {
+    if (kind === 'pull' && /^\d+$/.test(first ?? '')) return { kind: 'pull', number: Number(first) };
+    if (kind === 'commit' && /^[0-9a-f]{4,40}$/i.test(first ?? '')) return { kind: 'commit', sha: first };
+    if (kind === 'compare') {
+        // Refs may contain slashes
+        const match = [first, ...rest].join('/').match(/^(.+?)\.{2,3}(.+)$/);
+        if (match) return { kind: 'compare', base: match[1], head: match[2] };
+    }
+    return null;
+};
+
+const toChangedFile = (file: GitHubChangedFile): ChangedFile => {
+    const status: ChangeStatus = file.status === 'copied' ? 'added'
+        : file.status === 'added' || file.status === 'removed' || file.status === 'renamed' ? file.status
+        : 'modified';
+    return {
+        path: file.filename,
+        ...(file.previous_filename && { previousPath: file.previous_filename }),
+        status,
+        additions: file.additions,
+        deletions: file.deletions,
+        id: file.sha,
+        ...(file.patch !== undefined && { patch: file.patch })
+    };
+};
+
+const firstLine = (message: string) => message.split('\n')[0];
+
+// github.com/<owner>/<repo>[/tree/<branch>[/<path>]]
+export const githubProvider: RepoProvider = {
+    id: 'github',
+    label: 'GitHub',
+    tokenSetting: 'githubToken',
+    blobIds: true,
+    // GitHub Enterprise serves its API from the web host, under /api/v3
+    hosts: ({ githubApiUrl }) => ['github.com', ...(githubApiUrl ? [hostOf(githubApiUrl) ?? ''] : [])],
+    parsePath: ([owner, repo, kind, ...rest]) => {
+        if (!owner || !repo) return null;
+        const change = parseChange(kind, rest);
+        if (change) return { owner, repo: repo.replace(/\.git$/, ''), branch: null, path: '', change };
+
+        const [branch, ...path] = rest;
+        if ((kind && kind !== 'tree') || (kind && !branch)) return null;
+        return { owner, repo: repo.replace(/\.git$/, ''), branch: branch || null, path: path.join('/') };
+    },
+    apiUrl: ({ origin }, { githubApiUrl }) => {
+        if (origin === 'https://github.com') return PUBLIC_API;
+        return githubApiUrl ? githubApiUrl.replace(/\/+$/, '') : `${origin}/api/v3`;
+    },
+    authHeaders: token => ({ Authorization: `token ${token}` }),
+    tokenUrl: origin => `${origin}/settings/tokens/new?description=sac&scopes=repo`,
+    downloadArchive: ({ info, api, request }) => {
+        // Without a ref, the tarball is of the default branch
+        const ref = info.branch ? `/${encodePath(info.branch)}` : '';
+        return fetchTarball(request, `${api}/repos/${info.owner}/${info.repo}/tarball${ref}`);
+    },
+    listTree: async ({ info, api, request }, skipDirectory) => {
+        const repoApi = `${api}/repos/${info.owner}/${info.repo}`;
+        const ref = info.branch ?? (await fetchJson<{ default_branch: string }>(request, repoApi, 'fetch repository')).default_branch;
+        const fetchTree = (tree: string, recursive: boolean) => fetchJson<GitHubTree>(
+            request,
+            `${repoApi}/git/trees/${encodePath(tree)}${recursive ? '?recursive=1' : ''}`,
+            'fetch repository contents'
+        );
+
+        // Recursive listings stop at 100,000 entries or 7MB. A truncated directory is listed level by level
+        // instead, each subdirectory recursively again, so only the largest ones take a request per directory.
+        const listDirectory = async (tree: string, prefix: string): Promise<TreeFile[]> => {
+            const recursive = await fetchTree(tree, true);
+            if (!recursive.truncated) {
+                return recursive.tree
+                    .filter(item => item.type === 'blob')
+                    .map((item): TreeFile => ({ path: prefix + item.path, size: item.size, id: item.sha }));
+            }
+
+            const files: TreeFile[] = [];
+            for (const item of (await fetchTree(tree, false)).tree) {
+                const path = prefix + item.path;
+                if (item.type === 'blob') {
+                    files.push({ path, size: item.size, id: item.sha });
+                } else if (item.type === 'tree' && !skipDirectory(path)) {
+                    files.push(...await listDirectory(item.sha, `${path}/`));
+                }
+            }
+            return files;
+        };
+
+        return listDirectory(ref, '');
+    },
+    readFile: async ({ info, api, request }, file) => {
+        const { content } = await fetchJson<{ content: string }>(
+            request,
+            `${api}/repos/${info.owner}/${info.repo}/git/blobs/${file.id}`,
+            `fetch ${file.path}`
+        );
+        return decodeBase64(content);
+    },
+    listChanges: async ({ info, api, request }, change) => {
+        const repoApi = `${api}/repos/${info.owner}/${info.repo}`;
+
+        if (change.kind === 'pull') {
+            const pull = await fetchJson<{ title: string; body: string | null; base: { sha: string }; head: { sha: string } }>(
+                request,
+                `${repoApi}/pulls/${change.number}`,
+                'fetch pull request'
+            );
+            const files: GitHubChangedFile[] = [];
+            for (let page = 1; page <= MAX_FILE_PAGES; page++) {
+                const batch = await fetchJson<GitHubChangedFile[]>(
+                    request,
+                    `${repoApi}/pulls/${change.number}/files?per_page=${FILES_PER_PAGE}&page=${page}`,
+                    'fetch pull request files'
+                );
+                files.push(...batch);
+                if (batch.length < FILES_PER_PAGE) break;
+            }
+            return {
+                title: `Pull request #${change.number}: ${pull.title}`,
+                description: pull.body ?? '',
+                base: pull.base.sha,
+                head: pull.head.sha,
+                files: files.map(toChangedFile)
+            };
+        }
+
+        // Commits and comparisons list up to 300 files
+        if (change.kind === 'commit') {
+            const commit = await fetchJson<GitHubCommit>(request, `${repoApi}/commits/${change.sha}`, 'fetch commit');
+            return {
+                title: `Commit ${commit.sha.slice(0, 7)}: ${firstLine(commit.commit.message)}`,
+                description: commit.commit.message.split('\n').slice(1).join('\n').trim(),
+                base: commit.parents[0]?.sha ?? null,
+                head: commit.sha,
+                files: (commit.files ?? []).map(toChangedFile)
+            };
+        }
+
+        const comparison = await fetchJson<{ merge_base_commit: { sha: string }; commits: GitHubCommit[]; files?: GitHubChangedFile[] }>(
+            request,
+            `${repoApi}/compare/${encodePath(change.base)}...${encodePath(change.head)}`,
+            'fetch comparison'
+        );
+        const { commits } = comparison;
+        return {
+            title: `Compare ${change.base}...${change.head}`,
+            description: commits.map(({ sha, commit }) => `${sha.slice(0, 7)} ${firstLine(commit.message)}`).join('\n'),
+            base: comparison.merge_base_commit.sha,
+            head: commits.length > 0 ? commits[commits.length - 1].sha : change.head,
+            files: (comparison.files ?? []).map(toChangedFile)
+        };
+    },
+    readFileAt: async ({ info, api, request }, path, ref) => {
+        const { content, encoding } = await fetchJson<{ content: string; encoding: string }>(
+            request,
+            `${api}/repos/${info.owner}/${info.repo}/contents/${encodePath(path)}?ref=${encodeURIComponent(ref)}`,
+            `fetch ${path} at ${ref.slice(0, 7)}`
+        );
+        // Files over 1MB come without their content
+        if (encoding !== 'base64') throw new Error(`${path} is too large to read at ${ref.slice(0, 7)}`);
+        return decodeBase64(content);
+    }
+};
+
+export interface GithubTokenInfo {
+    login: string;
+    // Scopes of a classic token, null for a fine-grained token, whose permissions the API doesn't list
+    scopes: string[] | null;
+    // Null when the token doesn't expire, or the instance doesn't tell
+    expiresAt: Date | null;
+}
+
+// Who a token authenticates as, with its scopes and expiry, from the headers of an authenticated request
+export const fetchGithubTokenInfo = async (token: string, api: string = PUBLIC_API): Promise<GithubTokenInfo> => {
+    const response = await fetch(`${api}/user`, { headers: githubProvider.authHeaders(token) });
+    if (response.status === 401) throw new Error('The token is not valid, or has expired or been revoked');
+    if (!response.ok) throw new Error(`Failed to check the token (${response.status})`);
+
+    const { login } = await response.json() as { login: string };
+    const scopes = response.headers.get('x-oauth-scopes');
+    // e.g. "2026-11-30 12:00:00 UTC"
+    const expiration = response.headers.get('github-authentication-token-expiration');
+    const expiresAt = expiration ? new Date(expiration.replace(' UTC', 'Z').replace(' ', 'T')) : null;
+
+    return {
+        login,
+        scopes: scopes === null ? null : scopes.split(',').map(scope => scope.trim()).filter(Boolean),
+        expiresAt: expiresAt && !Number.isNaN(expiresAt.getTime()) ? expiresAt : null
+    };
+};
@@ -0,0 +1,64 @@
+import { RepoProvider, TreeFile } from './types';
+import { fetchJson, fetchTarball, hostOf, readText, checkResponse } from './common';
+
+interface GitLabTreeItem {
+    id: string;
+    path: string;
+    type: 'blob' | 'tree' | 'commit';
+}
+
+const PAGE_SIZE = 100;
+
+const projectId = ({ owner, repo }: { owner: string; repo: string }) => encodeURIComponent(`${owner}/${repo}`);
+
+// gitlab.com/<group>[/<subgroup>...]/<project>[/-/tree/<branch>[/<path>]]
+export const gitlabProvider: RepoProvider = {
+    id: 'gitlab',
+    label: 'GitLab',
+    tokenSetting: 'gitlabToken',
+    blobIds: true,
+    hosts: ({ gitlabUrl }) => ['gitlab.com', ...(gitlabUrl ? [hostOf(gitlabUrl) ?? ''] : [])],
+    parsePath: (segments) => {
+        const separator = segments.indexOf('-');
+        const project = separator === -1 ? segments : segments.slice(0, separator);
+        const [kind, branch, ...path] = separator === -1 ? [] : segments.slice(separator + 1);
+        if (project.length < 2 || (separator !== -1 && (kind !== 'tree' || !branch))) return null;
+        return {
+            owner: project.slice(0, -1).join('/'),
+            repo: project[project.length - 1].replace(/\.git$/, ''),
+            branch: branch || null,
+            path: path.join('/')
+        };
+    },
+    apiUrl: ({ origin }) => `${origin}/api/v4`,
+    authHeaders: token => ({ Authorization: `Bearer ${token}` }),
+    tokenUrl: origin => `${origin}/-/user_settings/personal_access_tokens?name=sac&scopes=read_api`,
+    downloadArchive: ({ info, api, request }) => {
+        const ref = info.branch ? `?sha=${encodeURIComponent(info.branch)}` : '';
+        return fetchTarball(request, `${api}/projects/${projectId(info)}/repository/archive.tar.gz${ref}`);
+    },
+    // The tree API returns no sizes, and fetching them would take a request per file: files are checked against
+    // the size limit once read, and ranked after files of known size for the token budget
+    listTree: async ({ info, api, request }) => {
+        const projectApi = `${api}/projects/${projectId(info)}`;
+        const ref = info.branch ?? (await fetchJson<{ default_branch: string }>(request, projectApi, 'fetch repository')).default_branch;
+        const files: TreeFile[] = [];
+
+        // The tree is paginated, `x-next-page` is empty on the last page
+        for (let page = '1'; page;) {
+            const response = checkResponse(
+                await request(`${projectApi}/repository/tree?recursive=true&ref=${encodeURIComponent(ref)}&per_page=${PAGE_SIZE}&page=${page}`),
+                'fetch repository contents'
+            );
+            const items: GitLabTreeItem[] = await response.json();
+            files.push(...items.filter(item => item.type === 'blob').map(item => ({ path: item.path, id: item.id })));
+            page = response.headers.get('x-next-page') ?? '';
+        }
+
+        return files;
+    },
+    readFile: async ({ info, api, request }, file) => {
+        const response = await request(`${api}/projects/${projectId(info)}/repository/blobs/${file.id}/raw`);
+        return readText(checkResponse(response, `fetch ${file.path}`));
+    }
+};
@@ -0,0 +1,40 @@
+import { bitbucketProvider } from './bitbucket';
+import { giteaProvider } from './gitea';
+import { fetchGithubTokenInfo, githubProvider } from './github';
+import { gitlabProvider } from './gitlab';
+import { ProviderId, ProviderSettings, RepoInfo, RepoProvider } from './types';
+
+export const PROVIDERS: RepoProvider[] = [githubProvider, gitlabProvider, bitbucketProvider, giteaProvider];
+
+export const getProvider = (id: ProviderId): RepoProvider => {
+    return PROVIDERS.find(provider => provider.id === id) ?? githubProvider;
+};
+
+// Provider whose public or configured self-hosted instance serves the URL
+export const detectProvider = (url: string, settings: ProviderSettings): RepoProvider | null => {
+    let host: string;
+    try {
+        host = new URL(url).host.toLowerCase();
+    } catch {
+        return null;
+    }
+    return PROVIDERS.find(provider => provider.hosts(settings).includes(host)) ?? null;
+};
+
+export const parseRepoUrl = (url: string, settings: ProviderSettings): RepoInfo | null => {
+    const provider = detectProvider(url.trim(), settings);
+    if (!provider) return null;
+
+    const { origin, pathname } = new URL(url.trim());
+    try {
+        const parsed = provider.parsePath(pathname.split('/').filter(Boolean).map(decodeURIComponent));
+        return parsed && { provider: provider.id, origin, ...parsed };
+    } catch {
+        // Malformed percent-encoding
+        return null;
+    }
+};
+
+export { bitbucketProvider, fetchGithubTokenInfo, giteaProvider, githubProvider, gitlabProvider };
+export type { GithubTokenInfo } from './github';
+export * from './types';
@@ -0,0 +1,95 @@
+import { ArchiveEntry } from '../archive';
+import { AdvancedSettings } from '../settings';
+
+export type ProviderId = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+
+// A repository, or a path inside it, parsed from a web URL
+export interface RepoInfo {
+    provider: ProviderId;
+    // Web origin of the instance, e.g. https://gitlab.com
+    origin: string;
+    // User, organization, workspace or GitLab group path (which may contain slashes)
+    owner: string;
+    repo: string;
+    branch: string | null;
+    path: string;
+    // Pack only the files changed by a pull request, commit or comparison
+    change?: RepoChange;
+}
+
+export type RepoChange =
+    | { kind: 'pull'; number: number }
+    | { kind: 'commit'; sha: string }
+    // Refs as in the URL, compared from their merge base like `git diff base...head`
+    | { kind: 'compare'; base: string; head: string };
+
+export type ChangeStatus = 'added' | 'modified' | 'removed' | 'renamed';
+
+export interface ChangedFile {
+    path: string;
+    // Path in the base revision of a renamed file
+    previousPath?: string;
+    status: ChangeStatus;
+    additions: number;
+    deletions: number;
+    // Identifies the head version for `readFile`
+    id: string;
+    // Unified diff hunks, missing for binary files and diffs too large for the API
+    patch?: string;
+}
+
+export interface ChangeSet {
+    // e.g. "Pull request #12: Fix the parser"
+    title: string;
+    description: string;
+    // Revisions compared, null base for a root commit
+    base: string | null;
+    head: string;
+    files: ChangedFile[];
+}
+
+// Self-hosted instance URLs, empty for the public instance
+export type ProviderSettings = Pick<AdvancedSettings, 'githubApiUrl' | 'gitlabUrl' | 'giteaUrl'>;
+
+// A file listed from the repository tree
+export interface TreeFile {
+    path: string;
+    // Missing where the tree API doesn't return sizes (GitLab), see `listTree`
+    size?: number;
+    // Identifies the contents for `readFile`, a blob SHA where the API has one
+    id: string;
+}
+
+export interface ProviderContext {
+    info: RepoInfo;
+    // Base URL of the REST API
+    api: string;
+    // Authenticated, rate limit aware `fetch`
+    request: (url: string) => Promise<Response>;
+}
+
+export interface RepoProvider {
+    id: ProviderId;
+    label: string;
+    // Setting holding this provider's access token
+    tokenSetting: 'githubToken' | 'gitlabToken' | 'bitbucketToken' | 'giteaToken';
+    // Web hosts this provider handles, including the configured self-hosted one
+    hosts: (settings: ProviderSettings) => string[];
+    // Parse the path of a repository URL (after the host), null if it isn't one
+    parsePath: (segments: string[]) => Omit<RepoInfo, 'provider' | 'origin'> | null;
+    apiUrl: (info: RepoInfo, settings: ProviderSettings) => string;
+    authHeaders: (token: string) => Record<string, string>;
+    // Where to create an access token
+    tokenUrl: (origin: string) => string;
+    // Whether `TreeFile.id` is the git blob SHA, which lets file contents be cached across sessions
+    blobIds?: boolean;
+    // Whole repository as one archive, for providers that can serve one to the browser
+    downloadArchive?: (context: ProviderContext) => Promise<ArchiveEntry[]>;
+    // Every file of the repository, directories for which `skipDirectory` returns true may be left out
+    listTree: (context: ProviderContext, skipDirectory: (path: string) => boolean) => Promise<TreeFile[]>;
+    readFile: (context: ProviderContext, file: TreeFile) => Promise<string>;
+    // Files changed by `info.change`, for providers that parse change URLs
+    listChanges?: (context: ProviderContext, change: RepoChange) => Promise<ChangeSet>;
+    // A file at a revision, for the base version of changed files
+    readFileAt?: (context: ProviderContext, path: string, ref: string) => Promise<string>;
+}
@@ -0,0 +1,103 @@
+// API quota as reported by the `X-RateLimit-*` (GitHub, Gitea) or `RateLimit-*` (GitLab) headers
+export interface RateLimit {
+    limit: number;
+    remaining: number;
+    reset: Date;
+}
+
+export interface RateLimitedFetchOptions {
+    onRateLimit?: (rateLimit: RateLimit) => void;
+}
+
+// Thrown when the quota is spent and retrying now is pointless. Packing stops instead of skipping files.
+export class RateLimitError extends Error {
+    constructor(public readonly reset: Date | null) {
+        super(reset
+            ? `API rate limit reached, it resets at ${reset.toLocaleTimeString()}`
+            : 'API rate limit reached, try again later');
+        this.name = 'RateLimitError';
+    }
+}
+
+// Secondary limits are retried with exponential backoff, starting at this delay
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRIES = 4;
+// Longer waits are left to the user, who can resume after the reset
+const MAX_RETRY_DELAY = 60 * 1000;
+
+const getHeader = (headers: Headers, name: string): string | null => {
+    return headers.get(`x-ratelimit-${name}`) ?? headers.get(`ratelimit-${name}`);
+};
+
+export const parseRateLimit = (headers: Headers): RateLimit | null => {
+    const limit = getHeader(headers, 'limit');
+    const remaining = getHeader(headers, 'remaining');
+    const reset = getHeader(headers, 'reset');
+    if (limit === null || remaining === null || reset === null) return null;
+
+    return {
+        limit: Number(limit),
+        remaining: Number(remaining),
+        // Reset is a Unix timestamp in seconds
+        reset: new Date(Number(reset) * 1000)
+    };
+};
+
+const sleep = (ms: number, signal?: AbortSignal | null): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new Error('Operation cancelled'));
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(new Error('Operation cancelled'));
+        };
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+// A 403 is only a rate limit if the API says so, otherwise it's a permission error
+const isRateLimited = async (response: Response, rateLimit: RateLimit | null): Promise<boolean> => {
+    if (response.status === 429 || rateLimit?.remaining === 0 || response.headers.has('retry-after')) return true;
+    if (response.status !== 403) return false;
+    try {
+        return /rate limit/i.test(await response.clone().text());
+    } catch {
+        return false;
+    }
+};
+
+// `fetch` that reports the remaining quota, retries secondary limits (403/429 with `Retry-After`,
+// or a rate limit message) with backoff, and throws a `RateLimitError` once the quota is spent
+export const rateLimitedFetch = async (
+    url: string,
+    init: RequestInit,
+    { onRateLimit }: RateLimitedFetchOptions = {}
+): Promise<Response> => {
+    for (let attempt = 0; ; attempt++) {
+        const response = await fetch(url, init);
+        const rateLimit = parseRateLimit(response.headers);
+        if (rateLimit) onRateLimit?.(rateLimit);
+
+        if ((response.status !== 403 && response.status !== 429) || !(await isRateLimited(response, rateLimit))) {
+            return response;
+        }
+
+        // Primary limit: nothing will succeed before the reset
+        const untilReset = rateLimit?.remaining === 0 ? Math.max(rateLimit.reset.getTime() - Date.now(), 0) + 1000 : 0;
+        const retryAfter = Number(response.headers.get('retry-after')) * 1000;
+        const delay = retryAfter || untilReset || BASE_RETRY_DELAY * 2 ** attempt;
+        if (attempt >= MAX_RETRIES || delay > MAX_RETRY_DELAY) {
+            throw new RateLimitError(rateLimit?.reset ?? new Date(Date.now() + delay));
+        }
+
+        console.warn(`Rate limited by ${new URL(url).host}, retrying in ${Math.round(delay / 1000)}s`);
+        await sleep(delay, init.signal);
+    }
+};
@@ -0,0 +1,133 @@
+export type SecretType =
+    | 'private-key' | 'aws-access-key' | 'aws-secret-key' | 'github-token' | 'stripe-key'
+    | 'slack-token' | 'slack-webhook' | 'jwt' | 'high-entropy';
+
+interface SecretDetector {
+    type: SecretType;
+    label: string;
+    // Global pattern. With `prefixed`, group 1 is context kept in the output and group 2 the secret.
+    pattern: RegExp;
+    prefixed?: boolean;
+}
+
+// A secret replaced in a file, with its 1-based line in the original file
+export interface Redaction {
+    path: string;
+    line: number;
+    type: SecretType;
+}
+
+// Names of variables and keys whose values are checked for high entropy
+const SECRET_NAME = '[\\w.-]*(?:secret|token|passw(?:or)?d|pwd|api[_-]?key|access[_-]?key|auth|credential)[\\w.-]*';
+
+// Values shorter than this, or more predictable, are too likely to be identifiers or placeholders
+const MIN_ENTROPY_LENGTH = 16;
+const MIN_ENTROPY = 3.5;
+
+export const SECRET_DETECTORS: SecretDetector[] = [
+    {
+        type: 'private-key',
+        label: 'Private key block',
+        pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/g
+    },
+    {
+        type: 'aws-access-key',
+        label: 'AWS access key ID',
+        pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g
+    },
+    {
+        type: 'aws-secret-key',
+        label: 'AWS secret access key',
+        pattern: /(aws[\w.-]*secret[\w.-]*["']?\s*[:=]\s*["']?)([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+        prefixed: true
+    },
+    {
+        type: 'github-token',
+        label: 'GitHub token',
+        pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g
+    },
+    {
+        type: 'stripe-key',
+        label: 'Stripe secret key',
+        pattern: /\b[sr]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g
+    },
+    {
+        type: 'slack-token',
+        label: 'Slack token',
+        pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g
+    },
+    {
+        type: 'slack-webhook',
+        label: 'Slack webhook URL',
+        pattern: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/]+/g
+    },
+    {
+        type: 'jwt',
+        label: 'JSON Web Token',
+        pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g
+    },
+    {
+        type: 'high-entropy',
+        label: 'High-entropy value assigned to a secret-like name',
+        pattern: new RegExp(`(${SECRET_NAME}["']?\\s*(?::|=|:=|=>)\\s*["'\`]?)([A-Za-z0-9+/_=-]{${MIN_ENTROPY_LENGTH},})`, 'gi'),
+        prefixed: true
+    }
+];
+
+// Shannon entropy in bits per character
+const entropy = (value: string): number => {
+    const counts = new Map<string, number>();
+    for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+    let bits = 0;
+    for (const count of counts.values()) {
+        const p = count / value.length;
+        bits -= p * Math.log2(p);
+    }
+    return bits;
+};
+
+// Random keys mix letters and digits, identifiers like `getTokenFromStorage` don't
+const looksRandom = (value: string): boolean => {
+    return /\d/.test(value) && /[A-Za-z]/.test(value) && entropy(value) >= MIN_ENTROPY;
+};
+
+export const redactionMarker = (type: SecretType): string => `[REDACTED:${type}]`;
+
+// Replace secrets with `[REDACTED:type]`, listing each one with the line it started on.
+// Detectors run on the original content, so an earlier detector wins where matches overlap.
+export const redactSecrets = (content: string, path: string): { content: string; redactions: Redaction[] } => {
+    const matches: { start: number; end: number; type: SecretType }[] = [];
+
+    for (const { type, pattern, prefixed } of SECRET_DETECTORS) {
+        for (const match of content.matchAll(pattern)) {
+            const secret = prefixed ? match[2] : match[0];
+            if (type === 'high-entropy' && !looksRandom(secret)) continue;
+
+            const start = (match.index ?? 0) + (prefixed ? match[1].length : 0);
+            const end = start + secret.length;
+            if (matches.some(other => start < other.end && end > other.start)) continue;
+            matches.push({ start, end, type });
+        }
+    }
+
+    if (matches.length === 0) return { content, redactions: [] };
+    matches.sort((a, b) => a.start - b.start);
+
+    let output = '';
+    let offset = 0;
+    let line = 1;
+    const redactions: Redaction[] = [];
+
+    for (const { start, end, type } of matches) {
+        const before = content.slice(offset, start);
+        line += before.split('\n').length - 1;
+        output += before + redactionMarker(type);
+        redactions.push({ path, line, type });
+
+        line += content.slice(start, end).split('\n').length - 1;
+        offset = end;
+    }
+
+    return { content: output + content.slice(offset), redactions };
+};
@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_SETTINGS, SETTINGS_VERSION, loadSettings, serializeSettings } from './settings';
+
+describe('loadSettings', () => {
+    it('migrates unversioned settings and resets invalid fields', () => {
+        const { settings, invalid, version } = loadSettings({ githubToken: 'undefined', tokenLimit: 'x', outputFormat: 'xml' });
+
+        assert.equal(version, 1);
+        assert.deepEqual(invalid, ['tokenLimit']);
+        assert.equal(settings.githubToken, '');
+        assert.equal(settings.tokenLimit, DEFAULT_SETTINGS.tokenLimit);
+        assert.equal(settings.outputFormat, 'xml');
+    });
+
+    it('reads what serializeSettings saved, without the tokens', () => {
+        const saved = JSON.parse(serializeSettings({ ...DEFAULT_SETTINGS, minifyLevel: 'aggressive', githubToken: 'secret' }));
+        const { settings, invalid, version } = loadSettings(saved);
+
+        assert.equal(version, SETTINGS_VERSION);
+        assert.deepEqual(invalid, []);
+        assert.equal(settings.minifyLevel, 'aggressive');
+        assert.equal(settings.githubToken, '');
+    });
+
+    it('rejects anything but an object', () => {
+        assert.throws(() => loadSettings([]), /JSON object/);
+        assert.throws(() => loadSettings(null), /JSON object/);
+    });
+});
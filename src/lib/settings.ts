@@ -0,0 +1,206 @@
+import { OutputFormat, isOutputFormat } from './format';
+import { MinifyLevel, isMinifyLevel } from './minify';
+import { DEFAULT_PRIORITY_RULES, PriorityRuleId, isPriorityRuleId } from './budget';
+import { TokenizerId, isTokenizerId } from './tokens';
+import { TOKEN_SETTINGS, TokenStorageMode, isTokenStorageMode } from './credentials';
+
+// Settings shared by every input (drop zone, GitHub, CLI)
+export interface AdvancedSettings {
+    tokenLimit: number;
+    // Split the output into parts of at most this many tokens, 0 keeps a single output
+    partSize: number;
+    // Enabled priority rules, most important first, used to pick files when the token limit is hit
+    priorityRules: PriorityRuleId[];
+    tokenizer: TokenizerId;
+    excludePatterns: string[];
+    removeComments: boolean;
+    minifyCode: boolean;
+    minifyLevel: MinifyLevel;
+    // Replace credentials (API keys, private keys, tokens...) with `[REDACTED:type]`
+    redactSecrets: boolean;
+    outputFormat: OutputFormat;
+    // Start the output with a directory tree of the packed files (size, tokens) and the skipped files
+    includeOverview: boolean;
+    // For pull request, commit and compare URLs: add the unified diff and the base version of each changed file
+    includeDiff: boolean;
+    allowedFormats: string;
+    useGitignore: boolean;
+    reviewFiles: boolean;
+    // Where the access tokens below are kept in the browser, they're never saved with the other settings
+    tokenStorage: TokenStorageMode;
+    githubToken: string;
+    gitlabToken: string;
+    bitbucketToken: string;
+    giteaToken: string;
+    // Self-hosted instances, empty for the public ones: the GitHub Enterprise API URL
+    // (e.g. https://ghe.example.com/api/v3) and the GitLab and Gitea web URLs
+    githubApiUrl: string;
+    gitlabUrl: string;
+    giteaUrl: string;
+    // Last repository URL, of any provider
+    githubUrl: string;
+}
+
+// Constants
+export const DEFAULT_ACCEPTED_TYPES = [
+    '.js', '.jsx', '.ts', '.tsx', '.vue', '.svelte', '.html', '.css', '.scss',
+    '.py', '.rb', '.go', '.rs', '.java', '.kt', '.swift', '.cpp', '.c', '.cs',
+    '.sql', '.json', '.yaml', '.toml', '.env', '.md', '.txt', '.csv'
+];
+export const DEFAULT_SKIP_PATTERNS = [
+    'node_modules', 'vendor', 'dist', 'build', '.git',
+    '__pycache__', 'venv', '.env', 'coverage', 'tmp'
+];
+export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+export const STORAGE_KEY = 'sac_advanced_settings';
+export const DEFAULT_SETTINGS: AdvancedSettings = {
+    tokenLimit: 100000,
+    partSize: 0,
+    priorityRules: DEFAULT_PRIORITY_RULES,
+    tokenizer: 'cl100k',
+    excludePatterns: [],
+    removeComments: false,
+    minifyCode: false,
+    minifyLevel: 'compact',
+    redactSecrets: true,
+    outputFormat: 'comment',
+    includeOverview: false,
+    includeDiff: false,
+    allowedFormats: DEFAULT_ACCEPTED_TYPES.join('\n'),
+    useGitignore: true,
+    reviewFiles: true,
+    tokenStorage: 'session',
+    githubToken: '',
+    gitlabToken: '',
+    bitbucketToken: '',
+    giteaToken: '',
+    githubApiUrl: '',
+    gitlabUrl: '',
+    giteaUrl: '',
+    githubUrl: ''
+};
+
+// Settings that change the output packed from the same files, unlike where files come from (tokens,
+// instance URLs, `includeDiff`) or how the app behaves (`reviewFiles`, `tokenStorage`)
+export const OUTPUT_SETTINGS: (keyof AdvancedSettings)[] = [
+    'tokenLimit', 'partSize', 'priorityRules', 'tokenizer', 'excludePatterns', 'removeComments', 'minifyCode',
+    'minifyLevel', 'redactSecrets', 'outputFormat', 'includeOverview', 'allowedFormats', 'useGitignore'
+];
+
+// Version of the stored settings, bumped with a migration below whenever a field changes meaning or format
+export const SETTINGS_VERSION = 2;
+
+// Value saved under `STORAGE_KEY`
+export interface StoredSettings {
+    version: number;
+    // Fields missing from it get their default
+    settings: Partial<AdvancedSettings>;
+}
+
+export interface LoadedSettings {
+    settings: AdvancedSettings;
+    // Saved fields whose value was not valid, reset to their default
+    invalid: (keyof AdvancedSettings)[];
+    // Version the settings were saved with, before migrating them
+    version: number;
+}
+
+// Migration from each version to the next
+const MIGRATIONS: Record<number, (settings: Record<string, unknown>) => Record<string, unknown>> = {
+    // Version 1 stored the fields without a version, and saved a missing token or URL as "undefined"
+    1: settings => ({
+        ...settings,
+        githubToken: settings.githubToken === 'undefined' ? '' : settings.githubToken,
+        githubUrl: settings.githubUrl === 'undefined' ? '' : settings.githubUrl
+    })
+};
+
+// Parsed JSON object, as opposed to an array, a primitive or null
+export const isRecord = (value: unknown): value is Record<string, unknown> => (
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+// Returns the value when valid, undefined otherwise
+type SettingValidator<T> = (value: unknown) => T | undefined;
+
+const anyString: SettingValidator<string> = value => typeof value === 'string' ? value : undefined;
+const anyBoolean: SettingValidator<boolean> = value => typeof value === 'boolean' ? value : undefined;
+const oneOf = <T>(guard: (value: unknown) => value is T): SettingValidator<T> => value => guard(value) ? value : undefined;
+
+const SETTINGS_SCHEMA: { [K in keyof AdvancedSettings]: SettingValidator<AdvancedSettings[K]> } = {
+    // -1 (or any negative value) for no limit
+    tokenLimit: value => Number.isInteger(value) && value !== 0 ? value as number : undefined,
+    partSize: value => Number.isInteger(value) && (value as number) >= 0 ? value as number : undefined,
+    // Rules removed in a later version are dropped rather than resetting the order
+    priorityRules: value => Array.isArray(value)
+        ? Array.from(new Set<PriorityRuleId>(value.filter(isPriorityRuleId)))
+        : undefined,
+    tokenizer: oneOf(isTokenizerId),
+    excludePatterns: value => Array.isArray(value) && value.every(pattern => typeof pattern === 'string') ? value : undefined,
+    removeComments: anyBoolean,
+    minifyCode: anyBoolean,
+    minifyLevel: oneOf(isMinifyLevel),
+    redactSecrets: anyBoolean,
+    outputFormat: oneOf(isOutputFormat),
+    includeOverview: anyBoolean,
+    includeDiff: anyBoolean,
+    allowedFormats: anyString,
+    useGitignore: anyBoolean,
+    reviewFiles: anyBoolean,
+    tokenStorage: oneOf(isTokenStorageMode),
+    githubToken: anyString,
+    gitlabToken: anyString,
+    bitbucketToken: anyString,
+    giteaToken: anyString,
+    githubApiUrl: anyString,
+    gitlabUrl: anyString,
+    giteaUrl: anyString,
+    githubUrl: anyString
+};
+
+// Check each field of a settings object. Missing fields, e.g. added in a later version, get their
+// default; fields with a value of the wrong type or out of range get their default and are reported.
+export const validateSettings = (parsed: unknown): { settings: AdvancedSettings; invalid: (keyof AdvancedSettings)[] } => {
+    const fields = isRecord(parsed) ? parsed : {};
+    const settings: Record<string, unknown> = {};
+    const invalid: (keyof AdvancedSettings)[] = [];
+
+    for (const key of Object.keys(SETTINGS_SCHEMA) as (keyof AdvancedSettings)[]) {
+        const value = fields[key];
+        const valid = value === undefined ? undefined : SETTINGS_SCHEMA[key](value);
+        if (value !== undefined && valid === undefined) invalid.push(key);
+        settings[key] = valid ?? DEFAULT_SETTINGS[key];
+    }
+
+    return { settings: settings as unknown as AdvancedSettings, invalid };
+};
+
+// Coerce a settings object into a complete one, see `validateSettings`
+export const normalizeSettings = (parsed: unknown): AdvancedSettings => validateSettings(parsed).settings;
+
+// Read a parsed `STORAGE_KEY` value of any version: migrated to the current version, then validated
+export const loadSettings = (parsed: unknown): LoadedSettings => {
+    if (!isRecord(parsed)) {
+        throw new Error('Settings must be a JSON object');
+    }
+
+    const { version: storedVersion, settings: storedSettings } = parsed;
+    const versioned = typeof storedVersion === 'number' && isRecord(storedSettings);
+    const version = versioned ? storedVersion : 1;
+    let settings = versioned ? storedSettings : parsed;
+
+    for (let from = version; from < SETTINGS_VERSION; from++) {
+        settings = MIGRATIONS[from]?.(settings) ?? settings;
+    }
+
+    return { ...validateSettings(settings), version };
+};
+
+// Settings to save under `STORAGE_KEY`, without the access tokens. Those saved by earlier versions are
+// still read by `loadSettings`, and moved where `tokenStorage` says.
+export const serializeSettings = (settings: AdvancedSettings): string => {
+    const saved: Partial<AdvancedSettings> = { ...settings };
+    TOKEN_SETTINGS.forEach(key => delete saved[key]);
+    const stored: StoredSettings = { version: SETTINGS_VERSION, settings: saved };
+    return JSON.stringify(stored);
+};
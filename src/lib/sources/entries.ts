@@ -0,0 +1,77 @@
+import { FileSource } from '../pack';
+import { LocalFile, createFileListSource } from './files';
+
+const readDirectory = (dirEntry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+    const reader = dirEntry.createReader();
+
+    // readEntries returns results in batches, keep reading until it returns nothing
+    return new Promise<FileSystemEntry[]>((resolve, reject) => {
+        const results: FileSystemEntry[] = [];
+
+        function readEntries() {
+            reader.readEntries(
+                (entries) => {
+                    if (entries.length === 0) {
+                        resolve(results);
+                    } else {
+                        results.push(...entries);
+                        readEntries(); // Continue reading
+                    }
+                },
+                reject
+            );
+        }
+
+        readEntries();
+    });
+};
+
+const getFile = (fileEntry: FileSystemFileEntry): Promise<File> => {
+    return new Promise<File>((resolve, reject) => {
+        fileEntry.file(resolve, reject);
+    });
+};
+
+// Walk entries from a drag and drop (`DataTransferItem.webkitGetAsEntry`) into files that can be
+// handed to a worker. Directories for which `skipDirectory` returns true are not walked.
+export const collectEntryFiles = async (
+    entries: FileSystemEntry[],
+    skipDirectory: (path: string) => boolean
+): Promise<LocalFile[]> => {
+    const files: LocalFile[] = [];
+
+    const walk = async (entry: FileSystemEntry, path: string) => {
+        const entryPath = path ? `${path}/${entry.name}` : entry.name;
+
+        try {
+            if (entry.isFile) {
+                files.push({ path: entryPath, file: await getFile(entry as FileSystemFileEntry) });
+                return;
+            }
+
+            if (entry.isDirectory) {
+                if (skipDirectory(entryPath)) {
+                    console.log(`Skipping ${entryPath} due to exclude pattern match`);
+                    return;
+                }
+                for (const childEntry of await readDirectory(entry as FileSystemDirectoryEntry)) {
+                    await walk(childEntry, entryPath);
+                }
+            }
+        } catch (error) {
+            console.error(`Error processing ${entry.name}:`, error);
+        }
+    };
+
+    for (const entry of entries) {
+        await walk(entry, '');
+    }
+
+    return files;
+};
+
+// File source backed by entries from a drag and drop
+export const createEntrySource = (entries: FileSystemEntry[]): FileSource => ({
+    local: true,
+    list: async skipDirectory => createFileListSource(await collectEntryFiles(entries, skipDirectory)).list(skipDirectory)
+});
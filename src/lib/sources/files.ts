@@ -0,0 +1,84 @@
+import { ARCHIVE_EXTENSION, getArchiveType, unpackArchive } from '../archive';
+import { FileSource, isInSkippedDirectory } from '../pack';
+import { MAX_FILE_SIZE } from '../settings';
+
+// A browser `File` with its path relative to the dropped or picked folder.
+// Unlike file system entries, these can be posted to a worker.
+export interface LocalFile {
+    path: string;
+    file: File;
+}
+
+// File source backed by files already collected on the main thread
+export const createFileListSource = (files: LocalFile[]): FileSource => ({
+    local: true,
+    list: async (skipDirectory) => {
+        return files
+            .filter(({ path }) => !isInSkippedDirectory(path, skipDirectory))
+            .map(({ path, file }) => ({
+                path,
+                size: file.size,
+                read: () => file.text()
+            }));
+    }
+});
+
+// Files whose contents were already copied into memory
+const memoryFiles = new WeakSet<File>();
+
+// Copy a file's contents into memory, so reading it no longer depends on the file on disk
+export const readIntoMemory = async (file: File): Promise<File> => {
+    if (memoryFiles.has(file)) return file;
+    const copy = new File([await file.arrayBuffer()], file.name, { lastModified: file.lastModified });
+    memoryFiles.add(copy);
+    return copy;
+};
+
+// Copy the dropped or picked files at `paths` into memory, so they can be packed again with other
+// settings after they changed or were removed on disk, which makes reading the original `File` fail.
+// Only the files about to be packed are copied, files over the size limit are skipped when packing,
+// so like every other file they are left on disk.
+export const copyToMemory = async (files: LocalFile[], paths: Set<string>, signal?: AbortSignal): Promise<LocalFile[]> => {
+    const copies: LocalFile[] = [];
+    for (const local of files) {
+        if (signal?.aborted) {
+            throw new Error('Operation cancelled');
+        }
+        if (!paths.has(local.path) || local.file.size > MAX_FILE_SIZE) {
+            copies.push(local);
+            continue;
+        }
+
+        try {
+            copies.push({ path: local.path, file: await readIntoMemory(local.file) });
+        } catch (error) {
+            // Left as is, packing reports it as unreadable
+            console.error(`Error processing ${local.path}:`, error);
+            copies.push(local);
+        }
+    }
+    return copies;
+};
+
+// Replace top-level `.zip`, `.tar` and `.tar.gz` files with their contents. A single archive is unpacked in
+// place, like a dropped folder; several are unpacked into directories named after them.
+export const expandArchives = async (files: LocalFile[]): Promise<LocalFile[]> => {
+    const archives = files.filter(({ path }) => !path.includes('/') && getArchiveType(path));
+    if (archives.length === 0) return files;
+
+    const expanded: LocalFile[] = [];
+    for (const local of files) {
+        const type = archives.includes(local) ? getArchiveType(local.path) : null;
+        if (!type) {
+            expanded.push(local);
+            continue;
+        }
+
+        const prefix = files.length === 1 ? '' : `${local.path.replace(ARCHIVE_EXTENSION, '')}/`;
+        for (const { path, data } of await unpackArchive(local.file, type)) {
+            expanded.push({ path: prefix + path, file: new File([data], path.slice(path.lastIndexOf('/') + 1)) });
+        }
+    }
+
+    return expanded;
+};
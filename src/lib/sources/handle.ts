@@ -0,0 +1,73 @@
+import { MAX_FILE_SIZE } from '../settings';
+import { LocalFile, readIntoMemory } from './files';
+
+// Parts of the File System Access API missing from the TypeScript DOM types
+declare global {
+    interface FileSystemHandle {
+        queryPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
+        requestPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
+    }
+
+    interface FileSystemDirectoryHandle {
+        values(): AsyncIterableIterator<FileSystemFileHandle | FileSystemDirectoryHandle>;
+    }
+
+    interface Window {
+        showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+    }
+}
+
+// A handle restored from IndexedDB needs the permission again, which can only be asked on a user gesture
+export const ensureReadPermission = async (handle: FileSystemHandle): Promise<boolean> => {
+    if (await handle.queryPermission({ mode: 'read' }) === 'granted') return true;
+    return await handle.requestPermission({ mode: 'read' }) === 'granted';
+};
+
+// Walk a directory picked with `showDirectoryPicker` into files that can be handed to a worker. Paths start
+// with the directory name, like a dropped folder.
+//
+// Contents are copied into memory, so with the `previous` files of the same directory only files whose
+// `lastModified` or size changed are read from disk again. Files over the size limit are skipped when
+// packing, so they are left on disk.
+export const collectHandleFiles = async (
+    handle: FileSystemDirectoryHandle,
+    skipDirectory: (path: string) => boolean,
+    previous: LocalFile[] = []
+): Promise<LocalFile[]> => {
+    const known = new Map(previous.map(local => [local.path, local.file]));
+    const files: LocalFile[] = [];
+
+    const walk = async (directory: FileSystemDirectoryHandle, path: string) => {
+        if (skipDirectory(path)) {
+            console.log(`Skipping ${path} due to exclude pattern match`);
+            return;
+        }
+
+        for await (const entry of directory.values()) {
+            const entryPath = `${path}/${entry.name}`;
+
+            try {
+                if (entry.kind === 'directory') {
+                    await walk(entry as FileSystemDirectoryHandle, entryPath);
+                    continue;
+                }
+
+                const file = await (entry as FileSystemFileHandle).getFile();
+                const cached = known.get(entryPath);
+                if (cached && cached.lastModified === file.lastModified && cached.size === file.size) {
+                    files.push({ path: entryPath, file: cached });
+                } else if (file.size > MAX_FILE_SIZE) {
+                    files.push({ path: entryPath, file });
+                } else {
+                    files.push({ path: entryPath, file: await readIntoMemory(file) });
+                }
+            } catch (error) {
+                console.error(`Error processing ${entryPath}:`, error);
+            }
+        }
+    };
+
+    await walk(handle, handle.name);
+
+    return files;
+};
@@ -0,0 +1,261 @@
+import { contentSize, gitBlobSha, listCachedBlobs, readCachedBlob, writeCachedBlob } from '../blobCache';
+import { isIgnoreFile } from '../ignore';
+import { FileSource, SourceFile, isInSkippedDirectory } from '../pack';
+import { getProvider } from '../providers';
+import { ChangeSet, ChangedFile, ProviderContext, ProviderSettings, RepoInfo, RepoProvider } from '../providers/types';
+import { RateLimit, rateLimitedFetch } from '../ratelimit';
+import { AdvancedSettings } from '../settings';
+
+export interface RepositorySourceOptions {
+    token?: string;
+    signal?: AbortSignal;
+    // Called with the remaining API quota after every request
+    onRateLimit?: (rateLimit: RateLimit) => void;
+}
+
+// Files are mostly identified by a content hash, so a file fetched before (e.g. until a rate
+// limit stopped the previous attempt) is reused instead of requested again. Files with a git blob
+// SHA are also kept across sessions, see `readCachedBlob`.
+// The map is in insertion order, and entries are moved to the end when read, so the least recently
+// used are the first ones, evicted above `MEMORY_CACHE_LIMIT`.
+const fileCache = new Map<string, { content: string; size: number }>();
+let fileCacheSize = 0;
+
+// Total size of the files kept in memory, in UTF-8 bytes like the IndexedDB cache (see `contentSize`)
+const MEMORY_CACHE_LIMIT = 50 * 1024 * 1024;
+
+const cacheFile = (key: string, content: string) => {
+    const previous = fileCache.get(key);
+    if (previous) {
+        fileCache.delete(key);
+        fileCacheSize -= previous.size;
+    }
+
+    // A single large file would evict everything else, it's read again when needed
+    const size = contentSize(content);
+    if (size > MEMORY_CACHE_LIMIT / 10) return;
+    fileCache.set(key, { content, size });
+    fileCacheSize += size;
+
+    for (const [oldest, evicted] of fileCache) {
+        if (fileCacheSize <= MEMORY_CACHE_LIMIT) break;
+        fileCache.delete(oldest);
+        fileCacheSize -= evicted.size;
+    }
+};
+
+const readCached = (key: string, read: () => Promise<string>, sha?: string) => async (): Promise<string> => {
+    const cached = fileCache.get(key)?.content ?? (sha ? await readCachedBlob(sha) : undefined);
+    if (cached !== undefined) {
+        cacheFile(key, cached);
+        return cached;
+    }
+
+    const content = await read();
+    cacheFile(key, content);
+    if (sha) writeCachedBlob(sha, content);
+    return content;
+};
+
+// Once a repository was fetched, its tree is listed first and only the files missing from the cache are
+// requested, one by one up to this many, then from the archive
+const MAX_BLOB_REQUESTS = 50;
+// Share of the tree's files that must be cached to do so, rather than download the archive right away
+const MIN_CACHED_SHARE = 0.5;
+
+const decoder = new TextDecoder();
+
+// Decode an archive entry, caching it under the blob SHA of its contents
+const readArchiveEntry = async (data: Uint8Array): Promise<string> => {
+    const content = decoder.decode(data);
+    writeCachedBlob(await gitBlobSha(data), content);
+    return content;
+};
+
+// Full commit SHAs are shortened like git does, branch names are kept
+const shortRef = (ref: string): string => (/^[0-9a-f]{40}$/i.test(ref) ? ref.slice(0, 7) : ref);
+
+// Title, description and the list of changed files, see `FileSource.header`
+const renderChangeHeader = (info: RepoInfo, changes: ChangeSet, includeDiff: boolean): string => {
+    const range = changes.base ? `${shortRef(changes.base)}...${shortRef(changes.head)}` : shortRef(changes.head);
+    const lines = [changes.title, `${info.owner}/${info.repo} ${range}`];
+
+    const description = changes.description.replace(/\r\n/g, '\n').trim();
+    if (description) lines.push('', description);
+
+    lines.push('', `Changed files (${changes.files.length}):`);
+    for (const { path, previousPath, status, additions, deletions } of changes.files) {
+        const renamed = previousPath ? ` (from ${previousPath})` : '';
+        lines.push(`  ${status.padEnd(8)} ${path}${renamed} +${additions} -${deletions}`);
+    }
+
+    lines.push('', includeDiff
+        ? 'Files are shown as of the head revision, each followed by its unified diff (<path>.diff) and its base version (<path>.base).'
+        : 'Files are shown as of the head revision, removed files are left out.');
+    return lines.join('\n');
+};
+
+const unifiedDiff = ({ path, previousPath, status, patch }: ChangedFile): string => {
+    const from = status === 'added' ? '/dev/null' : `a/${previousPath ?? path}`;
+    const to = status === 'removed' ? '/dev/null' : `b/${path}`;
+    return `--- ${from}\n+++ ${to}\n${patch}`;
+};
+
+// Head version of every file still in the repository and, with `includeDiff`, its diff and base version
+const listChangedFiles = (
+    provider: RepoProvider,
+    context: ProviderContext,
+    changes: ChangeSet,
+    includeDiff: boolean
+): SourceFile[] => {
+    const { info } = context;
+    const { base } = changes;
+    const files: SourceFile[] = [];
+
+    for (const file of changes.files) {
+        const { path, previousPath, status, id, patch } = file;
+        if (status !== 'removed') {
+            files.push({
+                path,
+                read: readCached(
+                    `${info.provider}:${info.origin}:${id}`,
+                    () => provider.readFile(context, { path, id }),
+                    provider.blobIds ? id : undefined
+                )
+            });
+        }
+        if (!includeDiff) continue;
+
+        if (patch !== undefined) {
+            const diff = unifiedDiff(file);
+            files.push({ path: `${path}.diff`, derivedFrom: path, size: diff.length, read: async () => diff });
+        }
+        // The diff of an added or removed file already holds all of it
+        const { readFileAt } = provider;
+        if (base && readFileAt && status !== 'added' && status !== 'removed') {
+            const basePath = previousPath ?? path;
+            files.push({
+                path: `${path}.base`,
+                derivedFrom: path,
+                read: readCached(`${info.provider}:${info.origin}:${base}:${basePath}`, () => readFileAt(context, basePath, base))
+            });
+        }
+    }
+
+    return files;
+};
+
+// Whole repositories are downloaded once as an archive and unpacked in memory when the provider
+// allows it, unless most of their files are cached from an earlier fetch. A single path, or a provider
+// without archives, is listed from the tree and read file by file.
+// For a pull request, commit or comparison, only the changed files are listed, and the source gets a header.
+export const createRepositorySource = (
+    info: RepoInfo,
+    settings: ProviderSettings & Pick<AdvancedSettings, 'includeDiff'>,
+    { token, signal, onRateLimit }: RepositorySourceOptions = {}
+): FileSource => {
+    const provider = getProvider(info.provider);
+    const headers = token ? provider.authHeaders(token) : {};
+    const context = {
+        info,
+        api: provider.apiUrl(info, settings),
+        request: (url: string) => rateLimitedFetch(url, { headers, signal }, { onRateLimit })
+    };
+    const { downloadArchive, listChanges } = provider;
+    const { change } = info;
+
+    if (change) {
+        if (!listChanges) throw new Error(`${provider.label} changes are not supported`);
+
+        let header: string | undefined;
+        return {
+            local: false,
+            get header() {
+                return header;
+            },
+            list: async () => {
+                const changes = await listChanges(context, change);
+                header = renderChangeHeader(info, changes, settings.includeDiff);
+                return listChangedFiles(provider, context, changes, settings.includeDiff);
+            }
+        };
+    }
+
+    if (!info.path && downloadArchive && provider.blobIds) {
+        // Every file is in memory once the archive is listed, or in the cache
+        let local = false;
+        let archive: Promise<Map<string, Uint8Array>> | null = null;
+        const loadArchive = () => {
+            if (!archive) {
+                archive = downloadArchive(context).then(entries => new Map(entries.map(({ path, data }) => [path, data])));
+            }
+            return archive;
+        };
+
+        return {
+            get local() {
+                return local;
+            },
+            list: async (skipDirectory) => {
+                // Recursive tree listings may include the directories `skipDirectory` would not have walked
+                const tree = (await provider.listTree(context, skipDirectory))
+                    .filter(file => !isInSkippedDirectory(file.path, skipDirectory));
+                const cached = await listCachedBlobs();
+                const hits = tree.filter(file => cached.has(file.id)).length;
+
+                // First fetch, or most files changed since
+                if (hits < tree.length * MIN_CACHED_SHARE) {
+                    local = true;
+                    // Archives hold every directory, skip the ones the tree listing would have
+                    return (await downloadArchive(context))
+                        .filter(({ path }) => !isInSkippedDirectory(path, skipDirectory))
+                        .map(({ path, data }) => ({
+                            path,
+                            size: data.length,
+                            read: () => readArchiveEntry(data)
+                        }));
+                }
+
+                local = hits === tree.length;
+                let requests = 0;
+                return tree.map(file => ({
+                    path: file.path,
+                    size: file.size,
+                    read: readCached(`${info.provider}:${info.origin}:${file.id}`, async () => {
+                        if (requests++ < MAX_BLOB_REQUESTS) return provider.readFile(context, file);
+
+                        // The archive may be of a newer commit than the tree
+                        const data = (await loadArchive()).get(file.path);
+                        return data && await gitBlobSha(data) === file.id
+                            ? decoder.decode(data)
+                            : provider.readFile(context, file);
+                    }, file.id)
+                }));
+            }
+        };
+    }
+
+    const basePath = info.path;
+
+    return {
+        local: false,
+        list: async (skipDirectory) => {
+            const files = await provider.listTree(context, skipDirectory);
+
+            return files
+                .filter(file => !isInSkippedDirectory(file.path, skipDirectory))
+                // Keep ignore files above the requested path so their rules still apply
+                .filter(file => !basePath || file.path.startsWith(basePath) ||
+                    (isIgnoreFile(file.path) && basePath.startsWith(file.path.slice(0, file.path.lastIndexOf('/') + 1))))
+                .map(file => ({
+                    path: file.path,
+                    size: file.size,
+                    read: readCached(
+                        `${info.provider}:${info.origin}:${file.id}`,
+                        () => provider.readFile(context, file),
+                        provider.blobIds ? file.id : undefined
+                    )
+                }));
+        }
+    };
+};
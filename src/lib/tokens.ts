@@ -0,0 +1,64 @@
+export type TokenizerId = 'estimate' | 'cl100k' | 'o200k' | 'claude';
+
+export interface Tokenizer {
+    id: TokenizerId;
+    count: (text: string) => number;
+}
+
+export const TOKENIZERS: { id: TokenizerId; label: string }[] = [
+    { id: 'cl100k', label: 'cl100k (GPT-4, GPT-3.5)' },
+    { id: 'o200k', label: 'o200k (GPT-4o, o1)' },
+    { id: 'claude', label: 'Claude (approximate)' },
+    { id: 'estimate', label: 'Fast estimate (4 chars per token)' }
+];
+
+// Claude's tokenizer isn't public; it yields roughly this many more tokens than cl100k on code and prose
+const CLAUDE_CL100K_RATIO = 1.15;
+
+// Text is counted as plain data, special tokens like <|endoftext|> in source files must not throw
+const encodeOptions = { disallowedSpecial: new Set<string>() };
+
+// Helper function to estimate token count
+export const estimateTokenCount = (text: string): number => {
+    return Math.ceil(text.length / 4); // Approximate tokens (1 token ≈ 4 chars)
+};
+
+export const ESTIMATE_TOKENIZER: Tokenizer = { id: 'estimate', count: estimateTokenCount };
+
+export const isTokenizerId = (value: unknown): value is TokenizerId => {
+    return TOKENIZERS.some(tokenizer => tokenizer.id === value);
+};
+
+const tokenizers = new Map<TokenizerId, Promise<Tokenizer>>();
+
+// BPE ranks are large, so each encoding is only downloaded the first time it's selected
+const createTokenizer = async (id: TokenizerId): Promise<Tokenizer> => {
+    switch (id) {
+        case 'cl100k': {
+            const { countTokens } = await import('gpt-tokenizer/encoding/cl100k_base');
+            return { id, count: text => countTokens(text, encodeOptions) };
+        }
+        case 'o200k': {
+            const { countTokens } = await import('gpt-tokenizer/encoding/o200k_base');
+            return { id, count: text => countTokens(text, encodeOptions) };
+        }
+        case 'claude': {
+            const { countTokens } = await import('gpt-tokenizer/encoding/cl100k_base');
+            return { id, count: text => Math.ceil(countTokens(text, encodeOptions) * CLAUDE_CL100K_RATIO) };
+        }
+        default:
+            return ESTIMATE_TOKENIZER;
+    }
+};
+
+export const loadTokenizer = (id: TokenizerId): Promise<Tokenizer> => {
+    let tokenizer = tokenizers.get(id);
+    if (!tokenizer) {
+        tokenizer = createTokenizer(id).catch((error) => {
+            console.error(`Error loading ${id} tokenizer, falling back to estimate:`, error);
+            return ESTIMATE_TOKENIZER;
+        });
+        tokenizers.set(id, tokenizer);
+    }
+    return tokenizer;
+};
@@ -0,0 +1,22 @@
+import { stripComments } from './comments';
+import { minifyContent } from './minify';
+import { AdvancedSettings } from './settings';
+
+// Apply comment removal and minification based on settings. The path picks the language.
+export const transformContent = (
+    content: string,
+    settings: Pick<AdvancedSettings, 'removeComments' | 'minifyCode' | 'minifyLevel'>,
+    path: string
+): string => {
+    let processedContent = content;
+
+    if (settings.removeComments) {
+        processedContent = stripComments(processedContent, path);
+    }
+
+    if (settings.minifyCode) {
+        processedContent = minifyContent(processedContent, path, settings.minifyLevel);
+    }
+
+    return processedContent;
+};
@@ -0,0 +1,52 @@
+export interface FileTreeNode<T extends { path: string }> {
+    name: string;
+    path: string;
+    children: FileTreeNode<T>[];
+    // Set on leaves only
+    file?: T;
+}
+
+// Nest flat file paths into a directory tree, directories first and both sorted by name
+export const buildFileTree = <T extends { path: string }>(files: T[]): FileTreeNode<T> => {
+    const root: FileTreeNode<T> = { name: '', path: '', children: [] };
+    // Directories by path, so large trees don't search children linearly
+    const directories = new Map<string, FileTreeNode<T>>([['', root]]);
+
+    for (const file of files) {
+        const segments = file.path.split('/');
+        let node = root;
+
+        segments.forEach((name, index) => {
+            const path = segments.slice(0, index + 1).join('/');
+
+            if (index === segments.length - 1) {
+                node.children.push({ name, path, children: [], file });
+                return;
+            }
+
+            let directory = directories.get(path);
+            if (!directory) {
+                directory = { name, path, children: [] };
+                directories.set(path, directory);
+                node.children.push(directory);
+            }
+            node = directory;
+        });
+    }
+
+    const sort = (node: FileTreeNode<T>) => {
+        node.children.sort((a, b) => {
+            if (!a.file !== !b.file) return a.file ? 1 : -1;
+            return a.name.localeCompare(b.name);
+        });
+        node.children.forEach(sort);
+    };
+    sort(root);
+
+    return root;
+};
+
+// All files below a node (or the node itself when it's a file)
+export const collectFiles = <T extends { path: string }>(node: FileTreeNode<T>): T[] => {
+    return node.file ? [node.file] : node.children.flatMap(collectFiles);
+};